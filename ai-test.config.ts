@@ -26,6 +26,9 @@ const config: AITestConfig = {
   // ═══════════════════════════════════════════════════════════════════════════
   
   browser: {
+    /** Navegador a usar: 'chromium' | 'firefox' | 'webkit' */
+    browserName: 'chromium',
+    
     /** Ejecutar sin interfaz gráfica (útil para CI/CD) */
     headless: false,
     
@@ -44,6 +47,16 @@ const config: AITestConfig = {
       height: 720
     },
     
+    /** Emular un dispositivo de Playwright (ej: 'iPhone 13'). Sobreescribe viewport */
+    // device: 'iPhone 13',
+    
+    /** Locale y zona horaria del navegador (opcional) */
+    // locale: 'es-BO',
+    // timezoneId: 'America/La_Paz',
+    
+    /** Geolocalización simulada (opcional) */
+    // geolocation: { latitude: -16.5, longitude: -68.15 },
+    
     /** Grabar video de la ejecución */
     recordVideo: false,
     
@@ -125,15 +138,54 @@ const config: AITestConfig = {
     
     /** 
      * Proveedor de IA a usar (o 'auto' para detectar desde .env)
-     * Opciones: 'auto', 'google', 'openai', 'anthropic', 'deepseek', 'ollama'
+     * Opciones: 'auto', 'google', 'openai', 'anthropic', 'deepseek', 'azure', 'ollama'
+     * - 'record': usa el proveedor real y graba cada respuesta en fixtures
+     * - 'replay': responde desde los fixtures sin red (falla si un prompt no está grabado)
      */
     provider: 'auto',
     
+    /**
+     * Proveedores de respaldo (en orden) si el principal falla tras reintentar
+     * Los 429/5xx/timeouts se reintentan con backoff exponencial respetando Retry-After
+     */
+    // fallbackProviders: ['openai', 'anthropic'],
+    // requestRetry: { maxRetries: 3, initialDelayMs: 1000, maxDelayMs: 30000 },
+    
+    /** Fixtures para 'record' / 'replay' (conviene analysisMode 'html': el screenshot no entra en el hash) */
+    // fixtures: { dir: './llm-fixtures', recordWith: 'google' },
+    
+    /**
+     * Ajustes por proveedor (opcionales): model, temperature, maxTokens, baseURL, timeout
+     * Un flow puede usar otro modelo con `model: '...'` en su definición
+     */
+    providers: {
+      // google: { model: 'gemini-2.5-flash', temperature: 0 },
+      // openai: { model: 'gpt-4o-mini', maxTokens: 2048, timeout: 60000 },
+      // anthropic: { model: 'claude-3-5-sonnet-20241022' },
+      // ollama: { model: 'llava', baseURL: 'http://gpu-server:11434' },
+    },
+    
+    /**
+     * Uso del LLM:
+     * - 'normal': caché primero, el LLM resuelve lo que falta
+     * - 'strict': solo caché (= --cache-only), un paso no aprendido falla sin gastar tokens
+     * - 'learn': siempre LLM para poblar el caché (= --learn)
+     */
+    mode: 'normal',
+    
     /** Reintentar con IA si el caché falla */
     retryOnCacheFailure: true,
     
     /** Máximo de reintentos por paso */
-    maxRetries: 1
+    maxRetries: 1,
+    
+    /**
+     * Límites de consumo (opcionales). Al superarse, el paso activo falla con
+     * un error de presupuesto y no se inician más flows
+     */
+    // maxTokensPerRun: 500000,
+    // maxTokensPerFlow: 50000,
+    // maxCostPerRun: 2.5,  // USD
   },
   
   // ═══════════════════════════════════════════════════════════════════════════
@@ -154,7 +206,35 @@ const config: AITestConfig = {
     maxFailures: 3,
     
     /** Mostrar logs de debug del caché */
-    debug: false
+    debug: false,
+    
+    /**
+     * Rutas que comparten entradas del caché (además de la detección automática)
+     * ':param' = un segmento, '*' = el resto de la ruta
+     */
+    routePatterns: [
+      // '/operadores/:id/editar',
+      // '/reportes/*'
+    ],
+    
+    /** Tratar segmentos numéricos, uuid y hashes como el mismo (/operadores/123 = /operadores/456) */
+    normalizeDynamicSegments: true,
+    
+    /** Query string en la clave: false (ignorar), true (todos) o lista de parámetros: ['tab'] */
+    queryParams: false,
+    
+    /** SPAs con hash routing: usar la ruta después de '#/' */
+    hashRoutes: true,
+    
+    /**
+     * Versión de la app: las entradas aprendidas con otra versión se ignoran
+     * Si no se indica, se usa APP_VERSION o el meta tag <meta name="app-version" content="...">
+     */
+    // appVersion: process.env.GIT_SHA,
+    appVersionMeta: 'app-version',
+    
+    /** Cuánto puede cambiar la estructura de la página (0-1) antes de ignorar una entrada */
+    maxFingerprintDrift: 0.5
   },
   
   // ═══════════════════════════════════════════════════════════════════════════
@@ -174,9 +254,18 @@ const config: AITestConfig = {
     /** Reintentos por test fallido (0 = sin reintentos) */
     retries: 0,
     
-    /** Timeout máximo por flow en ms (2 minutos) */
+    /** Timeout máximo por flow en ms (2 minutos). Se puede sobreescribir con defineFlow({ timeout }) */
     flowTimeout: 120000,
     
+    /** Timeout máximo por paso en ms (0 = sin límite). Se puede sobreescribir con defineFlow({ stepTimeout }) */
+    // stepTimeout: 30000,
+    
+    /** Sesiones de los flows de setup (defineFlow({ setup: 'admin' }) / defineFlow({ auth: 'admin' })) */
+    authDir: './.auth',
+    
+    /** Antigüedad máxima de una sesión en ms antes de re-ejecutar su setup (30 minutos) */
+    authMaxAge: 30 * 60 * 1000,
+    
     /** Ejecutar flows en paralelo (experimental) */
     parallel: false,
     
@@ -203,7 +292,39 @@ const config: AITestConfig = {
       notifyOn: 'on-failure' as 'always' | 'on-failure' | 'never',
       /** Nombre del proyecto (aparece en el mensaje) */
       projectName: 'AI Test Runner'
-    }
+    },
+    
+    /** Webhook genérico: POST con el resumen de la ejecución en JSON */
+    webhook: {
+      enabled: false,
+      url: process.env.NOTIFY_WEBHOOK_URL || '',
+      notifyOn: 'always'
+    },
+    
+    /** Microsoft Teams (Incoming Webhook o Workflows) */
+    teams: {
+      enabled: false,
+      webhookUrl: process.env.TEAMS_WEBHOOK_URL || '',
+      notifyOn: 'on-failure'
+    },
+    
+    /** Email vía SMTP */
+    email: {
+      enabled: false,
+      notifyOn: 'on-failure',
+      smtp: {
+        host: process.env.SMTP_HOST || '',
+        port: Number(process.env.SMTP_PORT || 587),
+        secure: false,
+        user: process.env.SMTP_USER,
+        pass: process.env.SMTP_PASS
+      },
+      from: 'ai-test@ejemplo.com',
+      to: []
+    },
+    
+    /** URL pública del reporte (ej: artefacto de CI). Por defecto se usa la ruta local */
+    reportUrl: process.env.REPORT_URL
   },
   
   // ═══════════════════════════════════════════════════════════════════════════
@@ -216,7 +337,46 @@ const config: AITestConfig = {
   /** Variables globales disponibles en todos los flows */
   globalVariables: {
     // Ejemplo: AMBIENTE: 'produccion'
-  }
+  },
+  
+  /**
+   * Variables secretas (además de las que contienen PASSWORD, TOKEN, SECRET, API_KEY... en el nombre)
+   * Solo se reemplazan al escribir en el navegador: la IA y el caché ven ${VAR} y los reportes ***
+   */
+  secretVariables: [
+    // Ejemplo: 'TEST_PIN'
+  ],
+  
+  // ═══════════════════════════════════════════════════════════════════════════
+  // 🌎 AMBIENTES
+  // ═══════════════════════════════════════════════════════════════════════════
+  
+  /**
+   * Ambientes seleccionables con: npx ai-test run --env staging (o AI_TEST_ENV=staging)
+   * Cada uno puede definir baseUrl, globalVariables, un .env propio y ajustes de IA
+   * Las variables del ambiente tienen prioridad sobre globalVariables
+   */
+  environments: {
+    dev: {
+      envFile: '.env'
+    },
+    staging: {
+      envFile: '.env.staging',
+      baseUrl: '${TEST_URL}'
+    },
+    itacamba: {
+      // Los flows usan ${TEST_URL}, ${TEST_EMAIL}... con los valores del tenant
+      globalVariables: {
+        TEST_URL: '${TEST_URL_ITA}',
+        TEST_EMAIL: '${TEST_EMAIL_ITA}',
+        TEST_PASSWORD: '${TEST_PASSWORD_ITA}'
+      }
+    }
+    // ci: { envFile: '.env.ci', ai: { provider: 'replay' } }
+  },
+  
+  /** Ambiente por defecto si no se pasa --env (opcional) */
+  // defaultEnvironment: 'dev'
 };
 
 export default config;
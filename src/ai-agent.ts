@@ -1,10 +1,19 @@
-import { chromium, Browser, Page, Locator, BrowserContext } from '@playwright/test';
-import { createLLMProvider, LLMProvider, AIDecision, AIAction, VerifyItem, MenuOption } from './llm-providers.js';
-import { SelectorCacheManager, SelectorCacheConfig, CachedSelector, CachedAction } from './selector-cache.js';
+import { chromium, firefox, webkit, devices, Browser, Page, Locator, BrowserContext, BrowserContextOptions } from '@playwright/test';
+import { createLLMProvider, LLMProviderOptions, LLMProvider, LLMResponse, AIDecision, AIAction, VerifyItem, MenuOption } from './llm-providers.js';
+import { SelectorCacheManager, SelectorCacheConfig, CachedSelector, CachedAction, CacheLookupContext, toValueSlots, fillValueSlots, createDomFingerprint } from './selector-cache.js';
+import { BrowserConfig } from './config/types.js';
+import { AI_DECISION_SCHEMA, parseAIDecision } from './ai-decision-schema.js';
+import { createDeadline, raceWithSignal, isTimeoutError } from './utils/deadline.js';
+import { UsageSummary, ModelPricing, UsageTracker, FlowBudget, sumUsage, formatCost } from './llm-usage.js';
+import { buildSlackRunPayload } from './notifications/notifiers.js';
+import type { FlowExecutionResult } from './runner/types.js';
 import * as fs from 'fs';
 import * as path from 'path';
 import 'dotenv/config';
 
+/** Intentos de corrección cuando la respuesta de la IA no cumple el esquema */
+const MAX_REPAIR_ATTEMPTS = 1;
+
 /**
  * Contexto de la página actual
  */
@@ -22,6 +31,8 @@ export interface ExecutionResult {
   decision?: AIDecision;
   finalUrl?: string;
   error?: string;
+  /** Tokens y costo consumidos por la instrucción */
+  usage?: UsageSummary;
 }
 
 /**
@@ -36,6 +47,20 @@ export interface StepResult {
   duration?: number;
   /** Screenshot en base64 (si está habilitado) */
   screenshot?: string;
+  /** Tokens y costo consumidos por el paso */
+  usage?: UsageSummary;
+  /** El paso fue cortado por el timeout del paso o del flow */
+  timedOut?: boolean;
+  /** Paso opcional: su fallo no hace fallar el flujo */
+  optional?: boolean;
+  /** Intentos ejecutados (> 1 si se usaron los reintentos del paso) */
+  attempts?: number;
+  /** Sub-flows de los que proviene el paso */
+  group?: string[];
+  /** Valores capturados de la página en este paso (acción extract) */
+  captured?: Record<string, string>;
+  /** Modo estricto: el paso falló porque no está en el caché */
+  notLearned?: boolean;
 }
 
 /**
@@ -54,6 +79,10 @@ export interface FlowResult {
   startTime?: string;
   /** Timestamp de fin */
   endTime?: string;
+  /** Tokens y costo totales del flujo */
+  usage?: UsageSummary;
+  /** El flujo se detuvo por timeout (del paso o del flow) */
+  timedOut?: boolean;
 }
 
 /**
@@ -71,7 +100,7 @@ export interface ExecuteParams {
  */
 export interface ExecuteFlowParams {
   url: string;
-  steps: string[];
+  steps: FlowStepInput[];
   stopOnError?: boolean;      // Detener si hay error (default: true)
   delayBetweenSteps?: number; // Delay en ms entre pasos (default: 2000)
   /** 
@@ -116,6 +145,84 @@ export interface ExecuteFlowParams {
    * Nombre del flow (para el reporte)
    */
   flowName?: string;
+  /**
+   * Tiempo máximo por paso en ms (sin límite si no se define)
+   */
+  stepTimeout?: number;
+  /**
+   * Señal de cancelación del flow completo (timeout del flow)
+   */
+  signal?: AbortSignal;
+  /**
+   * Variables del flow: los pasos se resuelven al ejecutarse, así pueden usar
+   * valores capturados por pasos anteriores (ej: ${OP_ID})
+   */
+  variables?: FlowVariables;
+}
+
+/**
+ * Variables de un flujo (implementada por VariableResolver)
+ */
+export interface FlowVariables {
+  /** Reemplaza ${VAR} en un texto (las variables secretas quedan como placeholder) */
+  resolve(text: string): string;
+  /** Reemplaza también las variables secretas (solo para el valor que se envía al navegador) */
+  resolveSecrets(text: string): string;
+  /** Reemplaza los valores secretos conocidos por *** */
+  maskSecrets(text: string): string;
+  /** Indica si una variable es secreta */
+  isSecret(name: string): boolean;
+  /** Valores generados con ${$...} hasta el momento (expresión -> valor) */
+  getGeneratedValues(): Record<string, string>;
+  /** Define las variables del paso en curso (parámetros de use()) */
+  setScope(variables: Record<string, string> | undefined): void;
+  /** Agrega o actualiza variables */
+  setVariables(variables: Record<string, string>): void;
+}
+
+/** Lo que se muestra en lugar de un valor secreto capturado */
+const SECRET_PLACEHOLDER = '***';
+
+/**
+ * Paso de un flujo con opciones propias (alternativa a la instrucción en texto plano)
+ *
+ * @example
+ * { do: 'Cerrar el banner de cookies', optional: true, timeout: 5000 }
+ * { do: 'Click en Guardar', retries: 2, expect: 'se muestra el mensaje "Guardado"' }
+ */
+export interface FlowStep {
+  /** Instrucción en lenguaje natural */
+  do: string;
+  /** Timeout del paso en ms (sobreescribe stepTimeout) */
+  timeout?: number;
+  /** Reintentos si el paso falla (cada reintento consulta a la IA sin caché) */
+  retries?: number;
+  /** Modo de análisis solo para este paso */
+  analysisMode?: AnalysisMode;
+  /** Si falla, el flujo continúa y el paso no cuenta como fallido */
+  optional?: boolean;
+  /** Si falla, el flujo continúa aunque stopOnError esté activo (el flujo sí queda fallido) */
+  continueOnError?: boolean;
+  /** Captura de pantalla del paso (sobreescribe screenshots.mode) */
+  screenshot?: 'always' | 'on-failure' | 'never';
+  /** Resultado esperado tras ejecutar el paso, verificado por la IA (ej: 'se muestra el dashboard') */
+  expect?: string;
+  /** Sub-flows de los que proviene el paso (lo completa FlowLoader al expandir use()) */
+  group?: string[];
+  /** Parámetros de use() para este paso: se resuelven al ejecutar, con prioridad sobre las variables del flow */
+  variables?: Record<string, string>;
+}
+
+/**
+ * Paso de un flujo: instrucción en texto plano o FlowStep
+ */
+export type FlowStepInput = string | FlowStep;
+
+/**
+ * Convierte un paso en texto plano a FlowStep
+ */
+export function toFlowStep(step: FlowStepInput): FlowStep {
+  return typeof step === 'string' ? { do: step } : step;
 }
 
 /**
@@ -126,6 +233,25 @@ export interface ExecuteFlowParams {
  */
 export type AnalysisMode = 'screenshot' | 'html' | 'hybrid';
 
+/**
+ * Uso del LLM
+ * - 'normal': caché primero, el LLM resuelve los pasos que no están en el caché
+ * - 'strict': solo caché (--cache-only); un paso no aprendido falla sin consultar al LLM
+ * - 'learn': consulta al LLM en todos los pasos para (re)aprenderlos en el caché (--learn)
+ */
+export type AIMode = 'normal' | 'strict' | 'learn';
+
+/**
+ * Error de un paso que no está en el caché en modo estricto
+ */
+function createNotLearnedError(message: string): Error {
+  return Object.assign(new Error(message), { notLearned: true });
+}
+
+function isNotLearnedError(error: unknown): boolean {
+  return (error as { notLearned?: boolean } | null)?.notLearned === true;
+}
+
 /**
  * Nivel de espera/estabilización de página
  * - 'full': Pipeline completo (post-navegación, primera carga)
@@ -134,6 +260,13 @@ export type AnalysisMode = 'screenshot' | 'html' | 'hybrid';
  */
 export type WaitLevel = 'full' | 'light' | 'minimal';
 
+/**
+ * Espera antes de extraer los elementos de la huella del DOM
+ * La misma al aprender y al buscar (elementos que aún cargan contarían como cambios),
+ * y liviana: se paga en cada cache hit
+ */
+const FINGERPRINT_WAIT_LEVEL: WaitLevel = 'light';
+
 /**
  * Elemento interactivo extraído del DOM
  */
@@ -168,6 +301,8 @@ export class PlaywrightAIAgent {
   private maxRetries = 3;
   private stepScreenshots: Array<{ step: number; path: string; success: boolean }> = [];
   private tracingEnabled = false;
+  /** Ruta del video de la sesión (solo si recordVideo está habilitado) */
+  private videoPath: string | null = null;
   
   /** Caché de selectores para ahorrar tokens */
   private selectorCache: SelectorCacheManager;
@@ -180,12 +315,30 @@ export class PlaywrightAIAgent {
    */
   public analysisMode: AnalysisMode = 'html'; // Por defecto usa HTML (más barato)
 
+  /** Uso del LLM: 'normal', 'strict' (solo caché) o 'learn' (siempre LLM, guarda en caché) */
+  private aiMode: AIMode = 'normal';
+
   /**
    * System prompt cacheado (estático, ~2.5KB) para reducir tokens
    * Se genera una sola vez y se reutiliza en todas las llamadas
    */
   private systemPrompt: string | null = null;
 
+  /** Contador de tokens/costo del paso en curso */
+  private usageTracker = new UsageTracker();
+
+  /** Presupuesto de tokens/costo (opcional, lo asigna el runner) */
+  private budget: FlowBudget | null = null;
+
+  /** Señal de cancelación del paso en curso (timeout del paso o del flow) */
+  private abortSignal: AbortSignal | undefined;
+
+  /** Variables del flujo en curso (destino de las acciones extract) */
+  private flowVariables: FlowVariables | undefined;
+
+  /** Valores capturados con extract en el paso en curso */
+  private capturedValues: Record<string, string> = {};
+
   /**
    * Constructor del agente
    * @param cacheConfig Configuración opcional del caché de selectores
@@ -209,6 +362,18 @@ export class PlaywrightAIAgent {
     return this;
   }
 
+  /**
+   * Configura el uso del LLM (llamar antes de initialize: en 'strict' no se crea el proveedor)
+   * @param mode 'normal' | 'strict' | 'learn'
+   * @returns this (para encadenamiento)
+   */
+  setAIMode(mode: AIMode): this {
+    this.aiMode = mode;
+    if (mode === 'strict') console.log('🔒 Modo estricto: solo caché, sin llamadas al LLM');
+    if (mode === 'learn') console.log('🎓 Modo aprendizaje: se consulta al LLM en todos los pasos para actualizar el caché');
+    return this;
+  }
+
   /**
    * Habilita o deshabilita el caché de selectores
    * @param enabled true para habilitar, false para deshabilitar
@@ -220,6 +385,25 @@ export class PlaywrightAIAgent {
     return this;
   }
 
+  /**
+   * Configura precios personalizados por modelo (USD por 1M tokens)
+   * Se combinan con la tabla por defecto de llm-usage.ts
+   * @returns this (para encadenamiento)
+   */
+  setPricing(pricing: Record<string, ModelPricing>): this {
+    this.usageTracker.setPricing(pricing);
+    return this;
+  }
+
+  /**
+   * Asigna el presupuesto de tokens/costo: al agotarse, el paso activo falla
+   * @returns this (para encadenamiento)
+   */
+  setBudget(budget: FlowBudget | null): this {
+    this.budget = budget;
+    return this;
+  }
+
   /**
    * Limpia todo el caché de selectores
    */
@@ -236,30 +420,99 @@ export class PlaywrightAIAgent {
 
   /**
    * Inicializa el navegador y el proveedor de LLM
-   * @param options - Opciones de inicialización (headless, slowMo)
+   * @param options - Configuración del navegador (headless, slowMo, viewport, timeouts, video, dispositivo...)
+   * @param llmOptions - Proveedor, ajustes por proveedor y override de modelo (desde AIConfig / el flow)
    */
-  async initialize(options: { headless?: boolean; slowMo?: number } = {}): Promise<void> {
-    const { headless = false, slowMo = 100 } = options;
+  async initialize(options: Partial<BrowserConfig> & { storageState?: string } = {}, llmOptions: LLMProviderOptions = {}): Promise<void> {
+    const { 
+      browserName = 'chromium',
+      headless = false, 
+      slowMo = 100,
+      viewport = { width: 1280, height: 720 },
+      navigationTimeout,
+      actionTimeout,
+      device,
+      locale,
+      timezoneId,
+      geolocation,
+      recordVideo = false,
+      videoDir = './videos',
+      storageState
+    } = options;
+    
+    // Validar antes de inicializar el LLM (la config puede venir de un .ts sin chequeo de tipos)
+    const browserTypes = { chromium, firefox, webkit };
+    if (!Object.prototype.hasOwnProperty.call(browserTypes, browserName)) {
+      throw new Error(`Navegador desconocido: '${browserName}' (disponibles: ${Object.keys(browserTypes).join(', ')})`);
+    }
     
-    // Inicializar proveedor de LLM (auto-detecta según .env)
-    this.llmProvider = createLLMProvider();
-    await this.llmProvider.initialize();
-    console.log(`🤖 Usando proveedor: ${this.llmProvider.name}`);
+    // Inicializar proveedor de LLM (con 'auto' detecta según .env)
+    // En modo estricto no hace falta: se puede correr sin API keys
+    if (this.aiMode !== 'strict') {
+      this.llmProvider = createLLMProvider(llmOptions);
+      await this.llmProvider.initialize();
+      console.log(`🤖 Usando proveedor: ${this.llmProvider.name}${llmOptions.model ? ` (modelo: ${llmOptions.model})` : ''}`);
+    }
     console.log(`💾 Caché de selectores: ${this.useSelectorCache ? 'HABILITADO' : 'DESHABILITADO'}\n`);
     
     // Inicializar navegador
-    this.browser = await chromium.launch({ 
+    this.browser = await browserTypes[browserName].launch({ 
       headless,
       slowMo
     });
     
+    // Preset de dispositivo (viewport, userAgent, touch, etc.)
+    let deviceOptions: BrowserContextOptions = {};
+    if (device) {
+      if (!devices[device]) {
+        throw new Error(`Dispositivo desconocido: "${device}". Ver lista en https://playwright.dev/docs/emulation#devices`);
+      }
+      // defaultBrowserType no es una opción de contexto
+      const { defaultBrowserType, ...descriptor } = devices[device];
+      deviceOptions = descriptor;
+      console.log(`📱 Emulando dispositivo: ${device}`);
+    }
+    
     // Crear contexto (necesario para tracing)
     this.context = await this.browser.newContext({
-      viewport: { width: 1280, height: 720 },
-      recordVideo: undefined // Puedes habilitar video: { dir: './videos' }
+      viewport,
+      ...deviceOptions,
+      locale,
+      timezoneId,
+      geolocation,
+      permissions: geolocation ? ['geolocation'] : undefined,
+      // Sesión guardada por un flow de setup (cookies + localStorage)
+      storageState,
+      recordVideo: recordVideo 
+        ? { dir: videoDir, size: deviceOptions.viewport || viewport } 
+        : undefined
     });
     
+    if (actionTimeout) this.context.setDefaultTimeout(actionTimeout);
+    if (navigationTimeout) this.context.setDefaultNavigationTimeout(navigationTimeout);
+    
     this.page = await this.context.newPage();
+    console.log(`🌐 Navegador: ${browserName}${headless ? ' (headless)' : ''}${recordVideo ? ` - 🎥 grabando en ${videoDir}` : ''}`);
+    if (storageState) console.log(`🔐 Sesión cargada desde: ${storageState}`);
+  }
+
+  /**
+   * Guarda la sesión actual (cookies + localStorage) para reutilizarla en otros flows
+   * Escritura atómica: otros workers pueden estar leyendo el archivo
+   */
+  async saveStorageState(filePath: string): Promise<void> {
+    if (!this.context) throw new Error('Agente no inicializado. Llama a initialize() primero.');
+    
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await this.context.storageState({ path: tempPath });
+    fs.renameSync(tempPath, filePath);
+  }
+
+  /**
+   * Ruta del video grabado (disponible después de close())
+   */
+  getVideoPath(): string | null {
+    return this.videoPath;
   }
 
   /**
@@ -320,7 +573,7 @@ export class PlaywrightAIAgent {
     // Combinar todos los selectores en uno
     const combinedSelector = this.LOADER_SELECTORS.join(', ');
     
-    while (Date.now() - startTime < timeout) {
+    while (Date.now() - startTime < timeout && !this.abortSignal?.aborted) {
       // Verificar si hay loaders visibles
       const hasVisibleLoaders = await this.page.evaluate((selector) => {
         const elements = Array.from(document.querySelectorAll(selector));
@@ -376,7 +629,7 @@ export class PlaywrightAIAgent {
     let lastSnapshot = '';
     let lastChangeTime = Date.now();
     
-    while (Date.now() - startTime < timeout) {
+    while (Date.now() - startTime < timeout && !this.abortSignal?.aborted) {
       try {
         // Usar el contenido del body como snapshot simple
         const currentSnapshot = await this.page.evaluate(() => {
@@ -670,15 +923,16 @@ CRITICAL RULES:
 3. Menu items, sidebar links, and navigation elements may not be in the list but still exist on the page
 4. ALWAYS generate actions for every task mentioned in the instruction
 5. Use visible text as locator when element is not in the list: "text 'ElementName'"
+6. Texts like \${TEST_PASSWORD} are placeholders for secret values: copy them VERBATIM into "value" (never change, complete or invent them)
 
 You MUST respond ONLY with a valid JSON object in this exact format:
 {
   "actions": [
     {
-      "type": "fill|click|press|wait|verify",
+      "type": "fill|click|dblclick|hover|select|check|upload|press|wait|verify|extract",
       "description": "Human readable description of the action",
       "locator": "element identifier - use ONLY ONE: name='value', id='value', placeholder='value', type='password', or visible text like 'Login'",
-      "value": "value to input (only for fill)" 
+      "value": "value for fill, select, check, upload, press or wait (omit for other types)" 
     }
   ],
   "reasoning": "Your reasoning for choosing these actions",
@@ -688,10 +942,19 @@ You MUST respond ONLY with a valid JSON object in this exact format:
 ACTION TYPES:
 - fill: Fill a text field
 - click: Click on a button, link, or any element (use text 'ElementText' for menu items)
+- dblclick: Double-click on an element (e.g. to open a table row)
+- hover: Move the mouse over an element (e.g. to open hover menus or tooltips)
+- select: Choose an option in a dropdown. Works for native <select> AND custom comboboxes (MUI Select/Autocomplete, Ant Select).
+  "locator" is the dropdown (use label='Field label' when possible), "value" is the visible text of the option to choose
+- check: Set a checkbox, radio button or switch. "value": "true" to check/turn on, "false" to uncheck/turn off
+- upload: Upload file(s). "locator" is the file input or upload button, "value" is the file path (comma-separated for several files)
 - press: Press a key (Enter, Tab, etc)
 - wait: Wait for specific time in milliseconds
 - verify: Verify that text exists on the page (use locator with text to search)
 - verifyAll: Verify multiple elements including menus (see VERIFY_ALL FORMAT below)
+- extract: Save the text of an element into a variable (e.g. "Guardar el número de operación como OP_ID").
+  "locator" is the element that contains the value (visible text like 'N° de operación' or id='...'),
+  "value" is the variable name (OP_ID), optional "pattern" is a regex to keep only part of the text (e.g. "\\\\d+", escaped as JSON)
 
 VERIFY_ALL FORMAT (for "Verificar pantalla" or "verifyAll" instructions):
 Use this when the user wants to verify multiple elements of a screen, including dropdown menus.
@@ -774,6 +1037,27 @@ Instruction: "Verify title 'Dashboard', click on 'Settings', then click on 'User
   "needsVerification": true
 }
 
+EXAMPLE - Dropdowns and checkboxes (ALWAYS use "select" for "Dropdown X: seleccionar Y", NEVER a sequence of clicks):
+Instruction: "Dropdown 'Ruta': seleccionar Bolivia, marcar 'Acepto términos'"
+{
+  "actions": [
+    {
+      "type": "select",
+      "description": "Select Bolivia in Ruta dropdown",
+      "locator": "label='Ruta'",
+      "value": "Bolivia"
+    },
+    {
+      "type": "check",
+      "description": "Check the terms checkbox",
+      "locator": "label='Acepto términos'",
+      "value": "true"
+    }
+  ],
+  "reasoning": "Used select for the dropdown and check for the checkbox",
+  "needsVerification": true
+}
+
 EXAMPLE - Exact text match (when user says "texto exacto" or "exact"):
 Instruction: "Click on menu item with exact text 'Mi flota', then submenu with exact text 'Operadores'"
 {
@@ -858,35 +1142,52 @@ ${elementsHtml}` : '';
    * @param instruction Instrucción a ejecutar
    * @param screenshot Screenshot opcional
    * @param skipCache Si es true, ignora el caché y consulta directamente a la IA
+   * @param template Instrucción sin resolver (${VAR}): clave del caché, sirve para cualquier valor
    */
-  private async analyzePageAndDecide(instruction: string, screenshot?: string, skipCache: boolean = false): Promise<AIDecision> {
-    if (!this.llmProvider) throw new Error('Proveedor LLM no inicializado');
+  private async analyzePageAndDecide(
+    instruction: string,
+    screenshot?: string,
+    skipCache: boolean = false,
+    template: string = instruction
+  ): Promise<AIDecision> {
     if (!this.page) throw new Error('Página no inicializada');
     
+    // Modo estricto: siempre desde el caché (también en reintentos); modo aprendizaje: siempre LLM
+    if (this.aiMode === 'strict') skipCache = false;
+    if (this.aiMode === 'learn') skipCache = true;
+    
     // 📋 PASO 0: Capturar URL con estabilización mínima (sin extraer elementos aún)
     // Esperar solo que el DOM básico esté listo para capturar la URL correcta
     await this.page.waitForLoadState('domcontentloaded', { timeout: 5000 }).catch(() => {});
     const currentUrl = this.page.url();
-    console.log(`🔗 URL actual: ${currentUrl}`);
+    console.log(`🔗 URL actual: ${this.flowVariables ? this.flowVariables.maskSecrets(currentUrl) : currentUrl}`);
     
-    // 🔍 PASO 1: Buscar en caché PRIMERO (antes de extraer elementos)
+    // 🔍 PASO 1: Buscar en caché PRIMERO (antes de la extracción completa de elementos)
     if (this.useSelectorCache && !skipCache) {
-      const cached = this.selectorCache.find(currentUrl, instruction);
+      // Versión y huella del DOM solo si la ruta tiene entradas que validar, exactas o fuzzy (la extracción no es gratis)
+      const cacheContext = this.selectorCache.hasRouteEntries(currentUrl) ? await this.getCacheContext() : {};
+      const cached = this.selectorCache.find(currentUrl, template, cacheContext);
       
       if (cached && cached.actions.length > 0) {
-        console.log(`💾 ¡CACHE HIT! Usando ${cached.actions.length} acciones guardadas (0 tokens, sin extracción de elementos)`);
-        cached.actions.forEach((action, i) => {
+        console.log(`💾 ¡CACHE HIT! Usando ${cached.actions.length} acciones guardadas (0 tokens, sin consultar al LLM)`);
+        this.usageTracker.recordCacheHit(cached.usage);
+        // Completar los slots ${VAR} con los valores de esta ejecución
+        const actions = this.flowVariables
+          ? fillValueSlots(cached.actions, text => this.flowVariables!.resolve(text))
+          : cached.actions;
+        actions.forEach((action, i) => {
           console.log(`   ${i + 1}. [${action.actionType}] ${action.selector}`);
         });
         
         // Construir AIDecision desde el caché con TODAS las acciones
         const cachedDecision: AIDecision = {
-          actions: cached.actions.map(action => ({
-            type: action.actionType as 'fill' | 'click' | 'press' | 'wait' | 'verify' | 'verifyAll',
+          actions: actions.map(action => ({
+            type: action.actionType,
             description: action.description,
             locator: action.selector,
             value: action.value,
             verifications: action.verifications,
+            pattern: action.pattern,
           })),
           reasoning: `[DESDE CACHÉ] ${cached.reasoning}`,
           needsVerification: false,
@@ -897,8 +1198,18 @@ ${elementsHtml}` : '';
       }
     }
     
+    if (this.aiMode === 'strict') {
+      throw createNotLearnedError(
+        `🧠 Paso no aprendido: "${template}" no está en el caché para ${this.selectorCache.extractUrlPattern(currentUrl)} ` +
+        '(ejecutar con --learn para aprenderlo)'
+      );
+    }
+    if (!this.llmProvider) throw new Error('Proveedor LLM no inicializado');
+    
     // 🧠 PASO 2: Cache MISS - Ahora SÍ extraer elementos y consultar al LLM
-    if (skipCache) {
+    if (this.aiMode === 'learn') {
+      console.log('🎓 Aprendiendo paso - Consultando al LLM...');
+    } else if (skipCache) {
       console.log('🔄 Cache invalidado - Consultando al LLM para obtener selectores actualizados...');
     } else {
       console.log('🧠 Cache MISS - Extrayendo elementos y consultando al LLM...');
@@ -914,7 +1225,7 @@ ${elementsHtml}` : '';
     }
     
     const context = await this.getPageContext();
-    let responseText: string;
+    let response: LLMResponse;
     
     // Generar system prompt si no está cacheado
     if (!this.systemPrompt) {
@@ -928,7 +1239,7 @@ ${elementsHtml}` : '';
     if (this.analysisMode === 'html') {
       // Solo texto, sin imagen (más barato)
       console.log('💰 Modo HTML: enviando solo texto (ahorra tokens)');
-      responseText = await this.llmProvider.analyzeImage('', userPrompt, this.systemPrompt);
+      response = await this.callLLM('', userPrompt);
     } else {
       // Con imagen (screenshot o hybrid)
       if (!screenshot) {
@@ -937,49 +1248,152 @@ ${elementsHtml}` : '';
       console.log(this.analysisMode === 'hybrid' 
         ? '🔄 Modo híbrido: enviando screenshot + HTML' 
         : '📸 Modo screenshot: enviando imagen');
-      responseText = await this.llmProvider.analyzeImage(screenshot, userPrompt, this.systemPrompt);
+      response = await this.callLLM(screenshot, userPrompt);
     }
     
-    console.log(`\n🤖 Respuesta de ${this.llmProvider.name}:`);
-    console.log(responseText);
+    // Validar contra el esquema; si no cumple, pedir a la IA que lo corrija
+    let validation = parseAIDecision(response.text);
+    for (let repair = 1; !validation.valid && repair <= MAX_REPAIR_ATTEMPTS; repair++) {
+      console.warn(`⚠️  Respuesta inválida (${validation.errors.length} errores), solicitando corrección ${repair}/${MAX_REPAIR_ATTEMPTS}...`);
+      validation.errors.forEach(error => console.warn(`   • ${error}`));
+      response = await this.callLLM('', this.generateRepairPrompt(userPrompt, response.text, validation.errors));
+      validation = parseAIDecision(response.text);
+    }
     
-    // Limpiar posible markdown del JSON
-    let jsonText = responseText.trim();
-    if (jsonText.startsWith('```json')) {
-      jsonText = jsonText.replace(/```json\n?/g, '').replace(/```\n?/g, '');
-    } else if (jsonText.startsWith('```')) {
-      jsonText = jsonText.replace(/```\n?/g, '');
+    if (!validation.valid) {
+      console.error('❌ La respuesta no cumple el esquema de AIDecision:');
+      validation.errors.forEach(error => console.error(`   • ${error}`));
+      throw new Error(`La IA no devolvió un JSON válido: ${validation.errors.slice(0, 5).join('; ')}`);
     }
     
-    try {
-      const decision = JSON.parse(jsonText.trim()) as AIDecision;
+    const decision = validation.decision;
+    
+    // 💾 PASO 3: Guardar TODAS las acciones en caché para futuras consultas
+    if (this.useSelectorCache && decision.actions.length > 0) {
+      const cachedActions = decision.actions.map(action => ({
+        selector: action.locator,
+        actionType: action.type,
+        description: action.description,
+        value: action.value,
+        verifications: action.verifications,  // Guardar verificaciones para verifyAll
+        pattern: action.pattern,              // Regex de extract
+      }));
       
-      // 💾 PASO 3: Guardar TODAS las acciones en caché para futuras consultas
-      if (this.useSelectorCache && decision.actions.length > 0) {
-        const cachedActions = decision.actions.map(action => ({
-          selector: action.locator,
-          actionType: action.type,
-          description: action.description,
-          value: action.value,
-          verifications: action.verifications,  // Guardar verificaciones para verifyAll
-        }));
-        
-        this.selectorCache.set(
-          currentUrl,
+      this.selectorCache.set(
+        currentUrl,
+        template,
+        toValueSlots(cachedActions, this.templateValues(template)),
+        decision.reasoning,
+        { ...response.usage, model: response.model },
+        await this.getCacheContext()
+      );
+    }
+    
+    return decision;
+  }
+
+  /**
+   * Revisa contra el caché los pasos que no se ejecutaron (modo estricto, tras un paso no aprendido)
+   * Como no se sabe en qué URL estarían, se busca la instrucción en cualquier ruta
+   * @returns Un resultado por cada paso sin aprender
+   */
+  private findNotLearnedSteps(steps: FlowStep[], firstStepNumber: number, variables?: FlowVariables): StepResult[] {
+    return steps
+      .map((step, index) => ({ step, stepNumber: firstStepNumber + index }))
+      .filter(({ step }) => !this.selectorCache.isLearned(step.do))
+      .map(({ step, stepNumber }) => {
+        let instruction = step.do;
+        try {
+          variables?.setScope(step.variables);
+          instruction = this.resolveStepText(step.do, variables);
+        } catch {
+          // Usa variables que captura un paso anterior: se muestra la plantilla
+        } finally {
+          variables?.setScope(undefined);
+        }
+        console.log(`   🧠 Paso ${stepNumber} tampoco está aprendido: ${instruction}`);
+        return {
+          step: stepNumber,
           instruction,
-          cachedActions,
-          decision.reasoning
+          success: false,
+          error: '🧠 Paso no aprendido (no se ejecutó: un paso anterior no estaba en el caché)',
+          duration: 0,
+          optional: step.optional,
+          group: step.group,
+          notLearned: true
+        };
+      });
+  }
+
+  /**
+   * Versión de la app y huella del DOM de la página actual (para validar/guardar entradas del caché)
+   * La versión sale de la config (o APP_VERSION) y si no, del meta tag configurado
+   * Al aprender se vuelve a extraer con FINGERPRINT_WAIT_LEVEL (la página ya está estable: es rápido)
+   */
+  private async getCacheContext(): Promise<CacheLookupContext> {
+    if (!this.page) return {};
+    
+    try {
+      let appVersion = this.selectorCache.getAppVersion();
+      if (!appVersion) {
+        const metaName = this.selectorCache.getAppVersionMeta();
+        appVersion = await this.page.evaluate(
+          (name: string) => document.querySelector(`meta[name="${name}"]`)?.getAttribute('content')?.trim() || undefined,
+          metaName
         );
       }
       
-      return decision;
+      // Sin comparación de huellas no vale la pena extraer elementos solo para calcularla
+      if (!this.selectorCache.checksFingerprint()) return { appVersion };
+      
+      const fingerprint = createDomFingerprint(await this.extractInteractiveElements(FINGERPRINT_WAIT_LEVEL));
+      return { appVersion, fingerprint };
     } catch (error) {
-      console.error('❌ Error parseando JSON:', (error as Error).message);
-      console.error('Texto recibido:', jsonText);
-      throw new Error('La IA no devolvió un JSON válido');
+      // Sin contexto la entrada se usa igual (maxFailures sigue protegiendo)
+      console.log(`   ⚠️ No se pudo calcular la huella de la página: ${(error as Error).message}`);
+      return {};
     }
   }
 
+  /**
+   * Consulta al LLM pidiendo salida estructurada (AIDecision)
+   * Verifica el presupuesto y registra tokens/costo de la llamada
+   */
+  private async callLLM(screenshot: string, prompt: string): Promise<LLMResponse> {
+    // Verificar presupuesto antes de gastar tokens
+    this.budget?.check();
+    
+    const response = await this.llmProvider!.analyzeImage(screenshot, prompt, this.systemPrompt || undefined, {
+      responseSchema: AI_DECISION_SCHEMA,
+      signal: this.abortSignal,
+      generatedValues: this.flowVariables?.getGeneratedValues()
+    });
+    
+    const callCost = this.usageTracker.recordCall(response.usage, response.model, response.provider);
+    console.log(`🪙 Tokens: ${response.usage.inputTokens} entrada / ${response.usage.outputTokens} salida (${response.model}, ${formatCost(callCost)})`);
+    this.budget?.record(response.usage.inputTokens + response.usage.outputTokens, callCost);
+    
+    console.log(`\n🤖 Respuesta de ${response.provider || this.llmProvider!.name}:`);
+    console.log(response.text);
+    
+    return response;
+  }
+
+  /**
+   * Genera el prompt de corrección: respuesta anterior + errores de validación
+   */
+  private generateRepairPrompt(userPrompt: string, previousResponse: string, errors: string[]): string {
+    return `${userPrompt}
+
+Your previous response does not match the required JSON format:
+${previousResponse}
+
+Validation errors:
+${errors.map(error => `- ${error}`).join('\n')}
+
+Respond ONLY with the corrected JSON object (actions, reasoning, needsVerification), no markdown.`;
+  }
+
   /**
    * Encuentra un elemento en la página usando descripción flexible
    * Soporta: selectores CSS, texto, placeholder, name, id
@@ -1290,7 +1704,7 @@ ${elementsHtml}` : '';
       switch (action.type) {
         case 'fill': {
           const element = await this.findElementByDescription(action.locator);
-          await element.fill(action.value || '');
+          await element.fill(this.withSecrets(action.value || ''));
           console.log(`   ✅ Llenado con: "${action.value}"`);
           await this.page.waitForTimeout(100);
           break;
@@ -1322,8 +1736,45 @@ ${elementsHtml}` : '';
           break;
         }
 
+        case 'dblclick': {
+          const element = await this.findElementByDescription(action.locator);
+          await element.dblclick();
+          console.log(`   ✅ Doble click realizado`);
+          await this.page.waitForTimeout(100);
+          break;
+        }
+
+        case 'hover': {
+          const element = await this.findElementByDescription(action.locator);
+          await element.hover();
+          console.log(`   ✅ Mouse sobre el elemento`);
+          // Dar tiempo a que se abran menús/tooltips que dependen del hover
+          await this.page.waitForTimeout(300);
+          break;
+        }
+
+        case 'select': {
+          const element = await this.findElementByDescription(action.locator);
+          await this.selectOption(element, this.withSecrets(action.value || ''));
+          console.log(`   ✅ Opción seleccionada: "${action.value}"`);
+          break;
+        }
+
+        case 'check': {
+          const element = await this.findElementByDescription(action.locator);
+          const checked = !/^(false|off|no|0|unchecked|desmarcar)$/i.test((action.value || 'true').trim());
+          await this.setCheckState(element, checked);
+          console.log(`   ✅ ${checked ? 'Marcado' : 'Desmarcado'}`);
+          break;
+        }
+
+        case 'upload': {
+          await this.uploadFiles(action.locator, action.value || '');
+          break;
+        }
+
         case 'press': {
-          await this.page.keyboard.press(action.value || 'Enter');
+          await this.page.keyboard.press(this.withSecrets(action.value || 'Enter'));
           console.log(`   ✅ Tecla presionada: ${action.value}`);
           await this.page.waitForTimeout(100);
           break;
@@ -1363,6 +1814,11 @@ ${elementsHtml}` : '';
           break;
         }
 
+        case 'extract': {
+          await this.extractValue(action);
+          break;
+        }
+
         default:
           console.warn(`   ⚠️  Tipo de acción desconocida: ${action.type}`);
       }
@@ -1372,6 +1828,166 @@ ${elementsHtml}` : '';
     }
   }
 
+  /**
+   * Selecciona una opción en un dropdown
+   * Soporta <select> nativo y comboboxes personalizados (MUI Select/Autocomplete, Ant Select)
+   */
+  private async selectOption(element: Locator, optionText: string): Promise<void> {
+    if (!this.page) throw new Error('Página no inicializada');
+    if (!optionText) throw new Error('La acción select requiere un valor (texto de la opción)');
+    
+    const tagName = await element.evaluate(el => el.tagName.toLowerCase());
+    
+    // 1. <select> nativo: buscar por label visible y luego por value
+    if (tagName === 'select') {
+      try {
+        await element.selectOption({ label: optionText }, { timeout: 3000 });
+      } catch {
+        await element.selectOption(optionText, { timeout: 3000 });
+      }
+      return;
+    }
+    
+    // 2. Combobox personalizado: abrir el popup
+    await element.click();
+    
+    // Autocomplete (input editable): escribir para filtrar las opciones
+    if (tagName === 'input' || tagName === 'textarea') {
+      await element.fill(optionText);
+    }
+    
+    const popupSelector = '[role="listbox"], .MuiAutocomplete-popper, .MuiMenu-paper, .MuiPopover-paper, .ant-select-dropdown';
+    try {
+      await this.page.waitForSelector(popupSelector, { state: 'visible', timeout: 3000 });
+    } catch {
+      console.log(`   ⚠️ No se detectó el popup del dropdown, buscando opción igualmente...`);
+    }
+    
+    // 3. Buscar la opción (exacta primero, luego parcial)
+    const escaped = optionText.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const candidates = [
+      this.page.getByRole('option', { name: optionText, exact: true }),
+      this.page.locator('.ant-select-item-option').filter({ hasText: new RegExp(`^${escaped}$`, 'i') }),
+      this.page.locator('[role="listbox"] li, .MuiMenu-list li').filter({ hasText: new RegExp(`^${escaped}$`, 'i') }),
+      this.page.getByRole('option', { name: new RegExp(escaped, 'i') }),
+      this.page.locator('.ant-select-item-option, [role="listbox"] li').filter({ hasText: new RegExp(escaped, 'i') }),
+    ];
+    
+    for (const candidate of candidates) {
+      const option = candidate.first();
+      if (await option.count() > 0 && await option.isVisible().catch(() => false)) {
+        await option.click();
+        await this.page.waitForTimeout(100);
+        return;
+      }
+    }
+    
+    // Cerrar el popup para no dejar la página en un estado intermedio
+    await this.page.keyboard.press('Escape');
+    throw new Error(`Opción no encontrada en el dropdown: "${optionText}"`);
+  }
+
+  /**
+   * Marca o desmarca un checkbox, radio o switch
+   * Usa el estado nativo si existe, o aria-checked/aria-pressed para componentes personalizados
+   */
+  private async setCheckState(element: Locator, checked: boolean): Promise<void> {
+    if (!this.page) throw new Error('Página no inicializada');
+    
+    // Checkbox/radio nativo o con role ARIA reconocido por Playwright
+    const current = await element.isChecked({ timeout: 2000 }).catch(() => null);
+    if (current !== null) {
+      if (current !== checked) {
+        await element.setChecked(checked);
+      }
+      return;
+    }
+    
+    // Componente personalizado: leer el estado del propio elemento o de un input interno
+    const state = await element.evaluate(el => {
+      const input = el.querySelector('input[type="checkbox"], input[type="radio"]') as HTMLInputElement | null;
+      if (input) return input.checked;
+      const aria = el.getAttribute('aria-checked') ?? el.getAttribute('aria-pressed');
+      if (aria !== null) return aria === 'true';
+      return el.classList.contains('Mui-checked') || el.classList.contains('ant-switch-checked');
+    });
+    
+    if (state !== checked) {
+      await element.click();
+      await this.page.waitForTimeout(100);
+    }
+  }
+
+  /**
+   * Sube uno o varios archivos
+   * Usa el input[type=file] directamente o el file chooser si el locator es un botón
+   */
+  private async uploadFiles(locator: string, value: string): Promise<void> {
+    if (!this.page) throw new Error('Página no inicializada');
+    
+    const files = value.split(',').map(f => f.trim()).filter(Boolean).map(f => path.resolve(f));
+    if (files.length === 0) throw new Error('La acción upload requiere al menos una ruta de archivo');
+    
+    const missing = files.filter(f => !fs.existsSync(f));
+    if (missing.length > 0) {
+      throw new Error(`Archivo(s) no encontrado(s): ${missing.join(', ')}`);
+    }
+    
+    // Los input[type=file] suelen estar ocultos: buscarlos sin exigir visibilidad
+    const looksLikeInput = /type[=:]?\s*['"]?file|input/i.test(locator);
+    
+    if (looksLikeInput && await this.page.locator('input[type="file"]').count() > 0) {
+      const fileInput = await this.findFileInput(locator);
+      await fileInput.setInputFiles(files);
+    } else {
+      // Botón o zona de "arrastrar y soltar": abrir el file chooser
+      const trigger = await this.findElementByDescription(locator);
+      const [fileChooser] = await Promise.all([
+        this.page.waitForEvent('filechooser', { timeout: 5000 }),
+        trigger.click()
+      ]);
+      await fileChooser.setFiles(files);
+    }
+    
+    console.log(`   ✅ Archivo(s) subido(s): ${files.map(f => path.basename(f)).join(', ')}`);
+  }
+
+  /**
+   * Busca el input[type=file] que indica el locator (selector CSS, id, name o label)
+   * Solo toma el primero de la página si el locator no permite distinguirlo
+   */
+  private async findFileInput(locator: string): Promise<Locator> {
+    const page = this.page!;
+    const fileInputs = page.locator('input[type="file"]');
+    
+    const idMatch = locator.match(/id[=:]?\s*['"]([^'"]+)['"]/i) || locator.match(/id[=:]?\s*([^\s'"\]]+)/i);
+    const nameMatch = locator.match(/name[=:]?\s*['"]?([^'"\]>\s]+)/i);
+    const labelMatch = locator.match(/label[=:]?\s*['"]([^'"]+)['"]/i);
+    const isCssSelector = /^(input|[#.\[])/i.test(locator.trim());
+    
+    const candidates: Array<() => Locator | null> = [
+      () => isCssSelector ? page.locator(locator.trim()).and(fileInputs) : null,
+      () => idMatch ? page.locator(`[id="${idMatch[1]}"]`).and(fileInputs) : null,
+      () => nameMatch ? page.locator(`[name="${nameMatch[1]}"]`).and(fileInputs) : null,
+      () => labelMatch ? page.getByLabel(new RegExp(labelMatch[1], 'i')).and(fileInputs) : null,
+    ];
+    
+    for (const candidate of candidates) {
+      try {
+        const loc = candidate();
+        if (loc && await loc.count() > 0) return loc.first();
+      } catch {
+        // Selector inválido para Playwright: probar la siguiente estrategia
+      }
+    }
+    
+    const count = await fileInputs.count();
+    if (count > 1) {
+      console.log(`   ⚠️ ${count} campos de archivo y "${locator}" no indica cuál, usando el primero`);
+    }
+    return fileInputs.first();
+  }
+
   /**
    * Ejecuta verificación de múltiples elementos (verifyAll)
    * Soporta: elementos normales, menús desplegables, sidebar, estados habilitado/deshabilitado
@@ -1832,6 +2448,7 @@ ${elementsHtml}` : '';
     console.log(`💾 Caché: ${this.useSelectorCache ? 'HABILITADO' : 'DESHABILITADO'}\n`);
 
     const executionUrl = this.page.url() || url;
+    this.usageTracker.flush();
 
     try {
       // 1. Navegar a la página
@@ -1890,7 +2507,8 @@ ${elementsHtml}` : '';
       return {
         success: true,
         decision,
-        finalUrl: this.page.url()
+        finalUrl: this.page.url(),
+        usage: this.usageTracker.flush()
       };
 
     } catch (error) {
@@ -1908,7 +2526,8 @@ ${elementsHtml}` : '';
       
       return {
         success: false,
-        error: (error as Error).message
+        error: (error as Error).message,
+        usage: this.usageTracker.flush()
       };
     }
   }
@@ -1940,13 +2559,18 @@ ${elementsHtml}` : '';
     generateJsonReport = true,
     reportDir = './test-results',
     screenshots = { enabled: true, mode: 'always', fullPage: false, format: 'png', embedInHtml: true },
-    flowName
+    flowName,
+    stepTimeout,
+    signal,
+    variables
   }: ExecuteFlowParams): Promise<FlowResult> {
     if (!this.page) throw new Error('Agente no inicializado. Llama a initialize() primero.');
     
     // Usar el modo pasado por parámetro o el configurado en la instancia
     if (analysisMode) this.analysisMode = analysisMode;
     
+    const flowSteps = steps.map(toFlowStep);
+    
     // Limpiar screenshots anteriores
     this.stepScreenshots = [];
     
@@ -1961,7 +2585,9 @@ ${elementsHtml}` : '';
     console.log('\n' + '═'.repeat(80));
     console.log('🔄 PLAYWRIGHT AI AGENT - FLUJO COMPLETO');
     console.log('═'.repeat(80));
-    console.log(`\n📍 URL inicial: ${url}`);
+    // La URL puede llevar secretos (ej: ?token=${API_TOKEN}): enmascarar en logs y reportes
+    const maskUrl = (value: string) => variables ? variables.maskSecrets(value) : value;
+    console.log(`\n📍 URL inicial: ${maskUrl(url)}`);
     console.log(`📋 Total de pasos: ${steps.length}`);
     console.log(`⏱️  Delay entre pasos: ${delayBetweenSteps}ms`);
     console.log(`🛑 Detener en error: ${stopOnError ? 'Sí' : 'No'}`);
@@ -1969,88 +2595,91 @@ ${elementsHtml}` : '';
     console.log(`📷 Capturas: ${screenshots.enabled ? screenshots.mode : 'Deshabilitadas'}`);
     console.log(`💾 Caché de selectores: ${this.useSelectorCache ? 'HABILITADO' : 'DESHABILITADO'}`);
     console.log(`📝 Tracing: ${shouldTrace ? traceMode : 'Deshabilitado'}`);
+    console.log(`⏱️  Timeout por paso: ${stepTimeout ? `${stepTimeout}ms` : 'Sin límite'}`);
     console.log(`📄 Reporte HTML: ${generateReport ? 'Sí' : 'No'}\n`);
     
     console.log('📝 Pasos a ejecutar:');
-    steps.forEach((step, i) => console.log(`   ${i + 1}. ${step}`));
+    flowSteps.forEach((step, i) => console.log(`   ${i + 1}. ${this.describeStep(step)}`));
     console.log('');
 
     const stepResults: StepResult[] = [];
     let currentUrl = url;
     let completedSteps = 0;
+    let failedRequiredSteps = 0;
+    let timeoutError: string | undefined;
     const flowStartTime = Date.now();
+    const flowAnalysisMode = this.analysisMode;
 
     // Navegar a la URL inicial
     console.log('🌐 Navegando a la URL inicial...');
-    await this.page.goto(url, { waitUntil: 'networkidle' });
+    await raceWithSignal(this.page.goto(url, { waitUntil: 'networkidle' }), signal);
 
-    for (let i = 0; i < steps.length; i++) {
+    for (let i = 0; i < flowSteps.length; i++) {
       const stepNumber = i + 1;
-      const instruction = steps[i];
+      const step = flowSteps[i];
+      // Se resuelve dentro del try: una variable sin valor hace fallar el paso
+      let instruction = step.do;
+      const retries = step.retries ?? 0;
+      const timeout = step.timeout ?? stepTimeout;
+      let attempts = 0;
+      
+      // Deadline del paso: vence por su timeout o cuando vence el del flow
+      const deadline = createDeadline(timeout, `⏱️ Timeout del paso ${stepNumber}: superó ${timeout}ms`, signal);
+      this.abortSignal = deadline.signal;
+      this.analysisMode = step.analysisMode || flowAnalysisMode;
+
+      // Captura del paso: la del paso sobreescribe la configuración global
+      const screenshotMode = step.screenshot ?? (screenshots.enabled ? screenshots.mode : 'never');
       
       console.log('\n' + '─'.repeat(80));
-      console.log(`📌 PASO ${stepNumber}/${steps.length}: ${instruction}`);
+      console.log(`📌 PASO ${stepNumber}/${flowSteps.length}: ${this.describeStep(step)}`);
       console.log('─'.repeat(80));
 
       const stepStartTime = Date.now();
+      // Descartar uso previo (navegación inicial) para contar solo este paso
+      this.usageTracker.flush();
 
       try {
-        // Analizar con IA según el modo configurado
-        console.log(`🧠 Analizando con IA (modo: ${this.analysisMode})...`);
-        let decision = await this.analyzePageAndDecide(instruction);
-        let usedCache = decision.fromCache || false;
-
-        console.log(`\n📋 Plan: ${decision.reasoning}`);
-        console.log(`   Acciones: ${decision.actions.length}`);
-
-        // Ejecutar acciones con retry si falla el caché
-        console.log('\n🎬 Ejecutando acciones...');
-        try {
-          for (const action of decision.actions) {
-            await this.executeAction(action);
-          }
-        } catch (actionError) {
-          // Si falló y venía del caché, reintentar consultando a la IA
-          if (usedCache && this.useSelectorCache) {
-            console.log('\n🔄 Selector del caché falló, invalidando y consultando a IA...');
-            
-            // Invalidar el caché para esta instrucción
-            this.selectorCache.invalidate(currentUrl, instruction);
-            
-            // Reintentar con IA (sin usar caché)
-            decision = await this.analyzePageAndDecide(instruction, undefined, true);
-            
-            console.log(`\n📋 Nuevo Plan (desde IA): ${decision.reasoning}`);
-            console.log(`   Acciones: ${decision.actions.length}`);
-            
-            // Ejecutar las nuevas acciones
-            console.log('\n🎬 Reintentando con selectores actualizados...');
-            for (const action of decision.actions) {
-              await this.executeAction(action);
+        variables?.setScope(step.variables);
+        instruction = this.resolveStepText(step.do, variables);
+        const expected = step.expect && this.resolveStepText(step.expect, variables);
+        this.flowVariables = variables;
+        this.capturedValues = {};
+        
+        // Analizar y ejecutar acciones; si vence el deadline, se corta el paso
+        // (se cancela la consulta al LLM en curso y las acciones de Playwright terminan al cerrar el navegador)
+        await raceWithSignal((async () => {
+          for (;;) {
+            attempts++;
+            try {
+              // El reintento consulta a la IA sin caché
+              await this.runInstruction(instruction, currentUrl, attempts > 1, step.do);
+              if (expected) {
+                await this.verifyExpectation(expected, currentUrl, step.expect);
+              }
+              return;
+            } catch (error) {
+              // Un paso no aprendido (modo estricto) no cambia al reintentar
+              if (attempts > retries || deadline.signal.aborted || isNotLearnedError(error)) throw error;
+              console.log(`\n🔁 Reintentando paso ${stepNumber} (${attempts}/${retries}): ${(error as Error).message}`);
+              await this.page!.waitForTimeout(delayBetweenSteps);
+              currentUrl = this.page!.url();
             }
-            
-            // Si llegamos aquí, funcionó - el caché se actualizó en analyzePageAndDecide
-            console.log('   ✅ Retry exitoso con nuevos selectores');
-          } else {
-            // No venía del caché o el caché está deshabilitado, propagar el error
-            throw actionError;
           }
-        }
+        })(), deadline.signal);
 
         // Esperar a que la página se estabilice
         await this.page.waitForTimeout(delayBetweenSteps);
         currentUrl = this.page.url();
 
-        // Marcar éxito en caché
+        // Marcar éxito en caché (la clave es el paso sin resolver)
         if (this.useSelectorCache) {
-          this.selectorCache.markSuccess(currentUrl, instruction);
+          this.selectorCache.markSuccess(currentUrl, step.do);
         }
 
         // Capturar screenshot del paso completado (según configuración)
-        const shouldCaptureSuccess = screenshots.enabled && 
-          (screenshots.mode === 'always');
         let stepScreenshot: string | undefined;
-        if (shouldCaptureSuccess) {
+        if (screenshotMode === 'always') {
           const capture = await this.captureStepScreenshot(stepNumber, true, reportDir, screenshots.fullPage);
           if (capture && screenshots.embedInHtml) {
             stepScreenshot = capture.base64;
@@ -2063,29 +2692,38 @@ ${elementsHtml}` : '';
           instruction,
           success: true,
           duration: stepDuration,
-          screenshot: stepScreenshot
+          screenshot: stepScreenshot,
+          usage: this.usageTracker.flush(),
+          optional: step.optional,
+          group: step.group,
+          captured: Object.keys(this.capturedValues).length > 0 ? this.capturedValues : undefined,
+          attempts
         });
         completedSteps++;
 
         console.log(`\n✅ Paso ${stepNumber} completado! (${(stepDuration / 1000).toFixed(1)}s)`);
 
       } catch (error) {
-        const errorMessage = (error as Error).message;
-        console.error(`\n❌ Error en paso ${stepNumber}: ${errorMessage}`);
+        // Un error de Playwright podría incluir el valor real de una variable secreta
+        const errorMessage = variables ? variables.maskSecrets((error as Error).message) : (error as Error).message;
+        const timedOut = isTimeoutError(error);
+        console.error(`\n${timedOut ? '⏱️' : '❌'} Error en paso ${stepNumber}: ${errorMessage}`);
         
         // Nota: Si llegamos aquí después de un retry, el caché ya fue invalidado
-        // Solo marcamos fallo si es un error nuevo
-        if (this.useSelectorCache) {
+        // Solo marcamos fallo si es un error nuevo (un timeout no indica que el selector esté mal)
+        if (this.useSelectorCache && !timedOut) {
           // El caché ya fue invalidado si hubo retry, markFailure es seguro
-          this.selectorCache.markFailure(currentUrl, instruction);
+          this.selectorCache.markFailure(currentUrl, step.do);
         }
         
-        // Capturar screenshot del error (siempre en modo 'always' u 'on-failure')
-        const shouldCaptureError = screenshots.enabled && 
-          (screenshots.mode === 'always' || screenshots.mode === 'on-failure');
+        // Capturar screenshot del error (en modo 'always' u 'on-failure', y siempre en timeout salvo 'never' explícito)
+        const shouldCaptureError = screenshotMode === 'always' || screenshotMode === 'on-failure' ||
+          (timedOut && screenshots.enabled && step.screenshot !== 'never');
         let errorScreenshot: string | undefined;
         if (shouldCaptureError) {
-          const capture = await this.captureStepScreenshot(stepNumber, false, reportDir, screenshots.fullPage);
+          // La página puede estar bloqueada tras un timeout: no dejar que la captura rompa el flujo
+          const capture = await this.captureStepScreenshot(stepNumber, false, reportDir, screenshots.fullPage)
+            .catch(() => null);
           if (capture && screenshots.embedInHtml) {
             errorScreenshot = capture.base64;
           }
@@ -2098,16 +2736,44 @@ ${elementsHtml}` : '';
           success: false,
           error: errorMessage,
           duration: stepDuration,
-          screenshot: errorScreenshot
+          screenshot: errorScreenshot,
+          usage: this.usageTracker.flush(),
+          timedOut,
+          optional: step.optional,
+          group: step.group,
+          captured: Object.keys(this.capturedValues).length > 0 ? this.capturedValues : undefined,
+          attempts,
+          notLearned: isNotLearnedError(error) || undefined
         });
+        if (!step.optional) failedRequiredSteps++;
 
-        if (stopOnError) {
+        // Tras un timeout quedan acciones de Playwright en curso: no se puede seguir con este navegador
+        if (timedOut) {
+          console.log('\n⏱️  Deteniendo flujo por timeout...');
+          timeoutError = errorMessage;
+          break;
+        }
+
+        if (step.optional) {
+          console.log('\n⚠️  Paso opcional fallido, continuando con el siguiente paso...');
+          await this.page.waitForTimeout(delayBetweenSteps);
+        } else if (stopOnError && !step.continueOnError) {
           console.log('\n🛑 Deteniendo flujo debido a error...');
+          // Modo estricto: reportar también los pasos siguientes que faltan aprender
+          if (isNotLearnedError(error)) {
+            stepResults.push(...this.findNotLearnedSteps(flowSteps.slice(i + 1), stepNumber + 1, variables));
+          }
           break;
         } else {
           console.log('\n⚠️  Continuando con el siguiente paso...');
           await this.page.waitForTimeout(delayBetweenSteps);
         }
+      } finally {
+        deadline.dispose();
+        this.abortSignal = undefined;
+        variables?.setScope(undefined);
+        this.flowVariables = undefined;
+        this.analysisMode = flowAnalysisMode;
       }
     }
 
@@ -2119,12 +2785,21 @@ ${elementsHtml}` : '';
     console.log(`\n   Total de pasos: ${steps.length}`);
     console.log(`   Completados: ${completedSteps}`);
     console.log(`   Fallidos: ${steps.length - completedSteps}`);
+    const failedOptional = stepResults.filter(s => !s.success && s.optional).length;
+    if (failedOptional > 0) {
+      console.log(`   Opcionales fallidos: ${failedOptional} (no afectan el resultado)`);
+    }
     console.log(`   Tiempo total: ${(flowDuration / 1000).toFixed(1)}s`);
-    console.log(`   URL final: ${currentUrl}`);
+    console.log(`   URL final: ${maskUrl(currentUrl)}`);
+    const flowUsage = sumUsage(...stepResults.map(s => s.usage));
+    console.log(`   Tokens: ${flowUsage.totalTokens} (${flowUsage.llmCalls} llamadas, ${flowUsage.cacheHits} cache hits) - Costo: ${formatCost(flowUsage.cost)}`);
     
-    const allSuccess = completedSteps === steps.length;
+    // Éxito: se ejecutaron todos los pasos y solo fallaron opcionales
+    const allSuccess = stepResults.length === steps.length && failedRequiredSteps === 0;
     if (allSuccess) {
       console.log('\n🎉 ¡Flujo completado exitosamente!');
+    } else if (timeoutError) {
+      console.log('\n⏱️  Flujo detenido por timeout');
     } else {
       console.log('\n⚠️  Flujo completado con errores');
     }
@@ -2135,10 +2810,13 @@ ${elementsHtml}` : '';
       totalSteps: steps.length,
       completedSteps,
       steps: stepResults,
-      finalUrl: currentUrl,
+      finalUrl: maskUrl(currentUrl),
       duration: flowDuration,
       startTime: new Date(flowStartTime).toISOString(),
-      endTime: new Date().toISOString()
+      endTime: new Date().toISOString(),
+      usage: flowUsage,
+      timedOut: !!timeoutError,
+      error: timeoutError
     };
 
     // Generar tracing si está habilitado
@@ -2185,9 +2863,15 @@ ${elementsHtml}` : '';
       this.selectorCache.dispose();
     }
     
+    // La ruta del video se conoce antes de cerrar, pero el archivo se escribe al cerrar el contexto
+    const video = this.page?.video();
+    
     if (this.context) {
       await this.context.close();
     }
+    if (video) {
+      this.videoPath = await video.path().catch(() => null);
+    }
     if (this.browser) {
       await this.browser.close();
     }
@@ -2232,6 +2916,163 @@ ${elementsHtml}` : '';
     return tracePath;
   }
 
+  /**
+   * Analiza la página y ejecuta las acciones de una instrucción
+   * Si las acciones venían del caché y fallan, invalida y reintenta consultando a la IA
+   * @param template Instrucción sin resolver, usada como clave del caché
+   */
+  private async runInstruction(
+    instruction: string,
+    currentUrl: string,
+    skipCache: boolean = false,
+    template: string = instruction
+  ): Promise<void> {
+    // Analizar con IA según el modo configurado
+    console.log(`🧠 Analizando con IA (modo: ${this.analysisMode})...`);
+    let decision = await this.analyzePageAndDecide(instruction, undefined, skipCache, template);
+    const usedCache = decision.fromCache || false;
+
+    console.log(`\n📋 Plan: ${decision.reasoning}`);
+    console.log(`   Acciones: ${decision.actions.length}`);
+
+    // Ejecutar acciones con retry si falla el caché
+    console.log('\n🎬 Ejecutando acciones...');
+    try {
+      for (const action of decision.actions) {
+        await this.executeAction(action);
+      }
+    } catch (actionError) {
+      // Si falló y venía del caché, reintentar consultando a la IA (salvo en modo estricto)
+      if (usedCache && this.useSelectorCache && this.aiMode !== 'strict') {
+        console.log('\n🔄 Selector del caché falló, invalidando y consultando a IA...');
+      
+        // Invalidar el caché para esta instrucción
+        this.selectorCache.invalidate(currentUrl, template);
+      
+        // Reintentar con IA (sin usar caché)
+        decision = await this.analyzePageAndDecide(instruction, undefined, true, template);
+      
+        console.log(`\n📋 Nuevo Plan (desde IA): ${decision.reasoning}`);
+        console.log(`   Acciones: ${decision.actions.length}`);
+      
+        // Ejecutar las nuevas acciones
+        console.log('\n🎬 Reintentando con selectores actualizados...');
+        for (const action of decision.actions) {
+          await this.executeAction(action);
+        }
+      
+        // Si llegamos aquí, funcionó - el caché se actualizó en analyzePageAndDecide
+        console.log('   ✅ Retry exitoso con nuevos selectores');
+      } else {
+        // No venía del caché o el caché está deshabilitado, propagar el error
+        throw actionError;
+      }
+    }
+  }
+
+  /**
+   * Resuelve las variables de un paso al momento de ejecutarlo
+   * Falla si queda alguna sin valor (ej: se usa ${OP_ID} pero ningún paso anterior lo capturó)
+   */
+  private resolveStepText(text: string, variables?: FlowVariables): string {
+    if (!variables) return text;
+    
+    // Las secretas quedan como placeholder: solo falta lo que tampoco resuelve resolveSecrets
+    const resolved = variables.resolve(text);
+    const missing = [...variables.resolveSecrets(resolved).matchAll(/\$\{([^}]+)\}/g)].map(m => m[1]);
+    if (missing.length > 0) {
+      throw new Error(`Variables sin valor: ${[...new Set(missing)].join(', ')} (¿no se capturaron en un paso anterior?)`);
+    }
+    return resolved;
+  }
+
+  /**
+   * Valores actuales de los placeholders de una instrucción ({ '${NOMBRE}': 'Juan' })
+   * Las secretas no se incluyen: ya llegan a la IA como placeholder
+   */
+  private templateValues(template: string): Record<string, string> {
+    const values: Record<string, string> = {};
+    if (!this.flowVariables) return values;
+
+    for (const [placeholder] of template.matchAll(/\$\{[^}]+\}/g)) {
+      const value = this.flowVariables.resolve(placeholder);
+      if (value !== placeholder && !value.includes('${')) {
+        values[placeholder] = value;
+      }
+    }
+    return values;
+  }
+
+  /**
+   * Reemplaza las variables secretas (${TEST_PASSWORD}) justo antes de usarlas en el navegador
+   * La decisión de la IA, el caché y los logs conservan el placeholder
+   */
+  private withSecrets(value: string): string {
+    return this.flowVariables ? this.flowVariables.resolveSecrets(value) : value;
+  }
+
+  /**
+   * Acción extract: guarda el texto de un elemento en una variable del flujo
+   */
+  private async extractValue(action: AIAction): Promise<void> {
+    const name = (action.value || '').trim();
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+      throw new Error(`Nombre de variable inválido para extract: "${action.value}"`);
+    }
+    
+    const element = await this.findElementByDescription(action.locator);
+    const tag = await element.evaluate(el => el.tagName.toLowerCase());
+    // En campos de formulario el valor está en value, no en el texto
+    const raw = ['input', 'textarea', 'select'].includes(tag)
+      ? await element.inputValue()
+      : await element.innerText();
+    
+    let value = raw.trim();
+    if (action.pattern) {
+      const match = value.match(new RegExp(action.pattern));
+      if (!match) {
+        throw new Error(`El texto "${value}" no coincide con el patrón ${action.pattern} para ${name}`);
+      }
+      value = (match[1] ?? match[0]).trim();
+    }
+    if (!value) {
+      throw new Error(`El elemento "${action.locator}" no tiene texto para guardar en ${name}`);
+    }
+    
+    const secret = this.flowVariables?.isSecret(name) ?? false;
+    this.capturedValues[name] = secret ? SECRET_PLACEHOLDER : value;
+    this.flowVariables?.setVariables({ [name]: value });
+    console.log(`   📥 ${name} = "${secret ? SECRET_PLACEHOLDER : value}"`);
+  }
+
+  /**
+   * Verifica el resultado esperado de un paso (FlowStep.expect) como una instrucción de verificación
+   */
+  private async verifyExpectation(expected: string, currentUrl: string, template: string = expected): Promise<void> {
+    console.log(`\n🔍 Verificando resultado esperado: ${expected}`);
+    try {
+      await this.runInstruction(`Verificar que ${expected}`, currentUrl, false, `Verificar que ${template}`);
+    } catch (error) {
+      throw new Error(`Resultado esperado no cumplido ("${expected}"): ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Texto de un paso para los logs, con sus opciones
+   */
+  private describeStep(step: FlowStep): string {
+    const flags = [
+      step.optional && 'opcional',
+      step.continueOnError && 'continuar si falla',
+      step.retries && `${step.retries} reintentos`,
+      step.timeout && `timeout ${step.timeout}ms`,
+      step.analysisMode && `modo ${step.analysisMode}`,
+      step.expect && `espera: ${step.expect}`
+    ].filter(Boolean);
+    const prefix = step.group?.length ? `[${step.group.join(' › ')}] ` : '';
+    return `${prefix}${step.do}${flags.length > 0 ? ` [${flags.join(', ')}]` : ''}`;
+  }
+
   /**
    * Captura screenshot de un paso y devuelve base64
    */
@@ -2284,8 +3125,9 @@ ${elementsHtml}` : '';
           <div class="step-header">
             <span class="step-number">Paso ${step.step}</span>
             <span class="step-time">⏱️ ${stepDuration}</span>
+            ${step.usage?.providers.length ? `<span class="step-time">🤖 ${step.usage.providers.join(', ')}</span>` : ''}
             <span class="step-status ${step.success ? 'passed' : 'failed'}">
-              ${step.success ? '✅ Completado' : '❌ Fallido'}
+              ${step.success ? '✅ Completado' : step.timedOut ? '⏱️ Timeout' : '❌ Fallido'}
             </span>
           </div>
           <div class="step-instruction">${step.instruction}</div>
@@ -2394,6 +3236,11 @@ ${elementsHtml}` : '';
         <h3>Tiempo Total</h3>
         <div class="value time">${totalDuration}</div>
       </div>
+      <div class="summary-card">
+        <h3>Tokens / Costo</h3>
+        <div class="value total">${result.usage?.totalTokens ?? 0}</div>
+        <div>${formatCost(result.usage?.cost ?? 0)}</div>
+      </div>
       <div class="summary-card">
         <h3>Estado</h3>
         <div class="value ${result.success ? 'success' : 'error'}">
@@ -2432,13 +3279,15 @@ ${elementsHtml}` : '';
         startTime: result.startTime,
         endTime: result.endTime,
         finalUrl: result.finalUrl,
+        usage: result.usage || null,
         steps: result.steps.map(s => ({
           step: s.step,
           instruction: s.instruction,
           success: s.success,
           error: s.error || null,
           duration: s.duration,
-          durationFormatted: s.duration ? `${(s.duration / 1000).toFixed(1)}s` : null
+          durationFormatted: s.duration ? `${(s.duration / 1000).toFixed(1)}s` : null,
+          usage: s.usage || null
         })),
         reportHtmlPath: reportPath,
         tracePath: fs.existsSync(path.join(reportDir, 'trace.zip')) 
@@ -2455,83 +3304,45 @@ ${elementsHtml}` : '';
   }
 
   /**
-   * Genera un payload listo para enviar a Slack via webhook
+   * Genera un payload de Slack para el resultado de un flujo
+   * Usa el mismo formato que SlackNotifier (el flujo se reporta como una ejecución de un solo flow)
+   * @deprecated Configurar notifications.slack (SlackNotifier) o usar buildSlackRunPayload con el resultado del runner
    * @param result Resultado del flujo
    * @param options Opciones adicionales para el mensaje
    */
-  generateSlackPayload(result: FlowResult, options?: { 
-    channel?: string; 
+  generateSlackPayload(result: FlowResult, options?: {
+    channel?: string;
     projectName?: string;
     buildUrl?: string;
   }): object {
-    const statusEmoji = result.success ? '✅' : '❌';
-    const statusText = result.success ? 'Exitoso' : 'Fallido';
-    const color = result.success ? '#22c55e' : '#ef4444';
-    
-    const failedSteps = result.steps.filter(s => !s.success);
-    const failedText = failedSteps.length > 0 
-      ? failedSteps.map(s => `• Paso ${s.step}: ${s.error}`).join('\n')
-      : 'Ninguno';
-
-    return {
-      channel: options?.channel,
-      attachments: [
-        {
-          color: color,
-          blocks: [
-            {
-              type: 'header',
-              text: {
-                type: 'plain_text',
-                text: `${statusEmoji} Playwright AI Agent - ${statusText}`,
-                emoji: true
-              }
-            },
-            {
-              type: 'section',
-              fields: [
-                {
-                  type: 'mrkdwn',
-                  text: `*Proyecto:*\n${options?.projectName || 'Playwright AI'}`
-                },
-                {
-                  type: 'mrkdwn',
-                  text: `*Estado:*\n${statusText}`
-                },
-                {
-                  type: 'mrkdwn',
-                  text: `*Pasos Completados:*\n${result.completedSteps}/${result.totalSteps}`
-                },
-                {
-                  type: 'mrkdwn',
-                  text: `*Fecha:*\n${new Date().toLocaleString('es-ES')}`
-                }
-              ]
-            },
-            ...(failedSteps.length > 0 ? [{
-              type: 'section',
-              text: {
-                type: 'mrkdwn',
-                text: `*❌ Pasos Fallidos:*\n${failedText}`
-              }
-            }] : []),
-            ...(options?.buildUrl ? [{
-              type: 'actions',
-              elements: [
-                {
-                  type: 'button',
-                  text: {
-                    type: 'plain_text',
-                    text: '📊 Ver Reporte',
-                    emoji: true
-                  },
-                  url: options.buildUrl
-                }
-              ]
-            }] : [])
-          ]
-        }
-      ]
+    const projectName = options?.projectName || 'Playwright AI';
+    const timedOut = !result.success && !!result.timedOut;
+    const flow: FlowExecutionResult = {
+      name: projectName,
+      tags: [],
+      success: result.success,
+      totalSteps: result.totalSteps,
+      completedSteps: result.completedSteps,
+      duration: result.duration ?? 0,
+      error: result.error ?? result.steps.find(s => !s.success)?.error,
+      steps: [],
+      timedOut
     };
+    
+    const payload = buildSlackRunPayload({
+      result: {
+        totalFlows: 1,
+        passed: result.success ? 1 : 0,
+        failed: !result.success && !timedOut ? 1 : 0,
+        timedOut: timedOut ? 1 : 0,
+        flaky: 0,
+        skipped: 0,
+        duration: flow.duration,
+        flows: [flow]
+      },
+      projectName,
+      reportLink: options?.buildUrl
+    });
+    return options?.channel ? { channel: options.channel, ...payload } : payload;
   }
 }
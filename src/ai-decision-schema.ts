@@ -0,0 +1,174 @@
+/**
+ * Esquema de AIDecision (la respuesta JSON que devuelve la IA)
+ *
+ * Se declara UNA sola vez y se usa para:
+ * - Validar en runtime la respuesta, con errores por campo
+ * - Pedir salida estructurada nativa a cada proveedor
+ *   (OpenAI response_format, Gemini responseSchema, Anthropic tool use, Ollama format)
+ */
+import type { AIDecision } from './llm-providers.js';
+
+/**
+ * Subconjunto de JSON Schema que usamos (compatible con todos los proveedores)
+ */
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: readonly string[];
+}
+
+/**
+ * Tipos de acción soportados por el agente
+ */
+export const AI_ACTION_TYPES = [
+  'fill',
+  'click',
+  'dblclick',
+  'hover',
+  'select',
+  'check',
+  'upload',
+  'press',
+  'wait',
+  'verify',
+  'verifyAll',
+  'extract'
+] as const;
+
+const MENU_OPTION_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    text: { type: 'string', description: 'Texto de la opción' },
+    state: { type: 'string', enum: ['enabled', 'disabled', 'any'] }
+  },
+  required: ['text']
+};
+
+const VERIFY_ITEM_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    type: { type: 'string', enum: ['element', 'menu', 'sidebar'] },
+    target: { type: 'string', description: 'Texto o selector del elemento' },
+    options: { type: 'array', items: MENU_OPTION_SCHEMA },
+    exact: { type: 'boolean' }
+  },
+  required: ['type', 'target']
+};
+
+const AI_ACTION_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    type: { type: 'string', enum: AI_ACTION_TYPES },
+    description: { type: 'string' },
+    locator: { type: 'string', description: 'Identificador del elemento (name=, id=, placeholder=, texto visible...)' },
+    value: { type: 'string', description: 'Texto a ingresar, opción, tecla, milisegundos, rutas de archivo o nombre de variable (extract)' },
+    pattern: { type: 'string', description: 'Solo extract: regex para quedarse con parte del texto' },
+    verifications: { type: 'array', items: VERIFY_ITEM_SCHEMA }
+  },
+  required: ['type', 'description', 'locator']
+};
+
+export const AI_DECISION_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    actions: { type: 'array', items: AI_ACTION_SCHEMA },
+    reasoning: { type: 'string' },
+    needsVerification: { type: 'boolean' }
+  },
+  required: ['actions', 'reasoning', 'needsVerification']
+};
+
+/** Nombre del esquema/herramienta para los proveedores que lo requieren */
+export const AI_DECISION_SCHEMA_NAME = 'ai_decision';
+
+/**
+ * Resultado de validar una respuesta de la IA
+ */
+export type AIDecisionValidation =
+  | { valid: true; decision: AIDecision }
+  | { valid: false; errors: string[] };
+
+/**
+ * Valida un valor contra el esquema y acumula errores con la ruta del campo
+ * Los números/booleanos en campos string se convierten a string (ej: "value": 2000)
+ */
+function validateValue(value: unknown, schema: JsonSchema, path: string, errors: string[]): unknown {
+  const field = path || '(raíz)';
+
+  switch (schema.type) {
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        errors.push(`${field}: se esperaba un objeto`);
+        return value;
+      }
+      const obj = value as Record<string, unknown>;
+      for (const key of schema.required || []) {
+        if (obj[key] === undefined || obj[key] === null) {
+          errors.push(`${path ? `${path}.` : ''}${key}: campo requerido`);
+        }
+      }
+      for (const [key, propSchema] of Object.entries(schema.properties || {})) {
+        if (obj[key] !== undefined && obj[key] !== null) {
+          obj[key] = validateValue(obj[key], propSchema, path ? `${path}.${key}` : key, errors);
+        }
+      }
+      return obj;
+    }
+    case 'array':
+      if (!Array.isArray(value)) {
+        errors.push(`${field}: se esperaba un array`);
+        return value;
+      }
+      return value.map((item, i) => validateValue(item, schema.items!, `${path}[${i}]`, errors));
+    case 'string': {
+      const text = typeof value === 'number' || typeof value === 'boolean' ? String(value) : value;
+      if (typeof text !== 'string') {
+        errors.push(`${field}: se esperaba un string`);
+      } else if (schema.enum && !schema.enum.includes(text)) {
+        errors.push(`${field}: "${text}" no es válido (opciones: ${schema.enum.join(', ')})`);
+      }
+      return text;
+    }
+    case 'number':
+    case 'integer':
+      if (typeof value !== 'number' || (schema.type === 'integer' && !Number.isInteger(value))) {
+        errors.push(`${field}: se esperaba un ${schema.type === 'integer' ? 'entero' : 'número'}`);
+      }
+      return value;
+    case 'boolean':
+      if (typeof value !== 'boolean') {
+        errors.push(`${field}: se esperaba true/false`);
+      }
+      return value;
+  }
+}
+
+/**
+ * Valida un objeto ya parseado contra AI_DECISION_SCHEMA
+ */
+export function validateAIDecision(value: unknown): AIDecisionValidation {
+  const errors: string[] = [];
+  const decision = validateValue(value, AI_DECISION_SCHEMA, '', errors);
+  return errors.length === 0
+    ? { valid: true, decision: decision as AIDecision }
+    : { valid: false, errors };
+}
+
+/**
+ * Parsea el texto de la IA (quitando bloques ```json) y lo valida
+ */
+export function parseAIDecision(text: string): AIDecisionValidation {
+  let jsonText = text.trim();
+  if (jsonText.startsWith('```')) {
+    jsonText = jsonText.replace(/^```(json)?\n?/, '').replace(/\n?```$/, '');
+  }
+
+  try {
+    return validateAIDecision(JSON.parse(jsonText.trim()));
+  } catch (error) {
+    return { valid: false, errors: [`JSON inválido: ${(error as Error).message}`] };
+  }
+}
@@ -0,0 +1,315 @@
+/**
+ * Subcomando 'ai-test cache': inspeccionar y administrar los selectores aprendidos
+ *
+ * Uso:
+ *   npx ai-test cache list --url /operadores        # Entradas de una ruta
+ *   npx ai-test cache show --instruction "Ingresar" # Detalle con las acciones
+ *   npx ai-test cache invalidate --min-failures 1   # Eliminar entradas que fallaron
+ *   npx ai-test cache prune --unused 7d             # Limpiar vencidas y sin uso
+ *   npx ai-test cache export cache-ci.json          # Compartir un caché "entrenado"
+ *   npx ai-test cache import cache-ci.json
+ *   npx ai-test cache stats
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { loadConfig, getAgentOptions } from '../config/index.js';
+import { SelectorCacheManager, CacheEntryFilter, CacheEntryInfo, SelectorCacheData } from '../selector-cache.js';
+
+/** Formato de 'cache export' ('import' también acepta un selector-cache.json) */
+interface CacheExportData {
+  exportedAt: number;
+  entries: SelectorCacheData;
+}
+
+interface CacheCommandOptions {
+  filter: CacheEntryFilter;
+  /** Argumentos sin flag (ej: archivo de export/import) */
+  positional: string[];
+  /** invalidate sin filtros */
+  all: boolean;
+  /** import: reemplazar entradas aunque la local sea más nueva */
+  overwrite: boolean;
+  environment?: string;
+}
+
+/** Subcomandos que modifican el caché (solo estos compactan y reescriben el snapshot) */
+const WRITE_SUBCOMMANDS = ['invalidate', 'prune', 'import'];
+
+const AGE_UNITS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000
+};
+
+export function printCacheHelp() {
+  console.log(`
+💾 ai-test cache - Selectores aprendidos (selector-cache.json)
+
+Uso:
+  npx ai-test cache <subcomando> [filtros]
+
+Subcomandos:
+  list                  Listar entradas
+  show                  Ver el detalle (acciones) de las entradas
+  invalidate            Eliminar las entradas filtradas (--all para todas)
+  prune                 Eliminar vencidas, con demasiados fallos o que cumplen los filtros
+  export [archivo]      Exportar las entradas filtradas (default: selector-cache.export.json)
+  import <archivo>      Importar entradas (--overwrite reemplaza aunque la local sea más nueva)
+  stats                 Resumen por ruta
+
+Filtros:
+  --url <ruta|URL>          Ruta que contiene el texto (ej: /operadores) o URL completa
+  --instruction <texto>     Instrucción que contiene el texto
+  --key <clave>             Clave exacta (como la muestra 'list')
+  --min-failures <n>        Con al menos n fallos consecutivos
+  --older-than <edad>       Creadas hace más de <edad> (ej: 30m, 12h, 7d, 2w)
+  --unused <edad>           Sin éxito hace más de <edad>
+  --env <ambiente>          Ambiente de ai-test.config.ts (si cambia la ruta del caché)
+`);
+}
+
+export async function runCacheCommand(args: string[]) {
+  const subcommand = args[0];
+  if (!subcommand || subcommand === 'help' || subcommand === '--help') {
+    printCacheHelp();
+    return;
+  }
+
+  const options = parseCacheOptions(args.slice(1));
+  const config = await loadConfig(undefined, options.environment || process.env.AI_TEST_ENV);
+  const { cacheConfig } = getAgentOptions(config);
+  const writes = WRITE_SUBCOMMANDS.includes(subcommand);
+  // Sin limpieza al cargar: list muestra todo y prune cuenta lo que elimina
+  const cache = new SelectorCacheManager({ ...cacheConfig, debug: false, cleanupInterval: 0, manualMaintenance: true });
+
+  try {
+    switch (subcommand) {
+      case 'list':
+        listEntries(cache.list(options.filter));
+        break;
+
+      case 'show':
+        showEntries(cache.list(options.filter));
+        break;
+
+      case 'invalidate': {
+        if (!hasFilters(options.filter) && !options.all) {
+          throw new Error('invalidate necesita al menos un filtro (o --all para eliminar todo)');
+        }
+        const removed = cache.remove(cache.list(options.filter).map(info => info.key));
+        console.log(`🗑️  ${removed} entradas eliminadas`);
+        break;
+      }
+
+      case 'prune': {
+        // Vencidas y con maxFailures (el caché se abre sin limpiarlas) + las que cumplen los filtros
+        const removed = cache.cleanup() +
+          (hasFilters(options.filter) ? cache.remove(cache.list(options.filter).map(info => info.key)) : 0);
+        console.log(`🧹 ${removed} entradas eliminadas`);
+        break;
+      }
+
+      case 'export': {
+        const file = options.positional[0] || 'selector-cache.export.json';
+        const entries = cache.list(options.filter);
+        const data: CacheExportData = {
+          exportedAt: Date.now(),
+          entries: Object.fromEntries(entries.map(info => [info.key, info.entry]))
+        };
+        fs.writeFileSync(path.resolve(file), JSON.stringify(data, null, 2), 'utf-8');
+        console.log(`📤 ${entries.length} entradas exportadas a ${file}`);
+        break;
+      }
+
+      case 'import': {
+        const file = options.positional[0];
+        if (!file) throw new Error('Indicar el archivo a importar: ai-test cache import <archivo>');
+        const data = JSON.parse(fs.readFileSync(path.resolve(file), 'utf-8')) as Partial<CacheExportData>;
+        if (!data.entries) throw new Error(`${file} no es un caché exportado (falta "entries")`);
+        const imported = cache.importEntries(data.entries, options.overwrite);
+        const total = Object.keys(data.entries).length;
+        console.log(`📥 ${imported}/${total} entradas importadas desde ${file}` +
+          (imported < total ? ' (las demás ya existían con una versión más nueva)' : ''));
+        break;
+      }
+
+      case 'stats':
+        printStats(cache.list(options.filter));
+        break;
+
+      default:
+        console.error(`❌ Subcomando desconocido: ${subcommand}`);
+        printCacheHelp();
+        process.exitCode = 1;
+    }
+  } finally {
+    // Dejar el snapshot al día (ej: para copiar selector-cache.json a CI)
+    if (writes) cache.compact();
+    cache.dispose();
+  }
+}
+
+function parseCacheOptions(args: string[]): CacheCommandOptions {
+  const options: CacheCommandOptions = { filter: {}, positional: [], all: false, overwrite: false };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const nextArg = args[i + 1];
+
+    switch (arg) {
+      case '--url':
+        options.filter.url = requireValue(arg, nextArg);
+        i++;
+        break;
+
+      case '--instruction':
+      case '-i':
+        options.filter.instruction = requireValue(arg, nextArg);
+        i++;
+        break;
+
+      case '--key':
+        options.filter.key = requireValue(arg, nextArg);
+        i++;
+        break;
+
+      case '--min-failures':
+        options.filter.minFailures = parseInt(requireValue(arg, nextArg), 10);
+        i++;
+        break;
+
+      case '--older-than':
+        options.filter.olderThan = parseAge(requireValue(arg, nextArg));
+        i++;
+        break;
+
+      case '--unused':
+        options.filter.unusedFor = parseAge(requireValue(arg, nextArg));
+        i++;
+        break;
+
+      case '--env':
+        options.environment = requireValue(arg, nextArg);
+        i++;
+        break;
+
+      case '--all':
+        options.all = true;
+        break;
+
+      case '--overwrite':
+        options.overwrite = true;
+        break;
+
+      default:
+        if (arg.startsWith('-')) throw new Error(`Opción desconocida: ${arg}`);
+        options.positional.push(arg);
+    }
+  }
+
+  return options;
+}
+
+function requireValue(flag: string, value: string | undefined): string {
+  if (value === undefined) throw new Error(`Falta el valor de ${flag}`);
+  return value;
+}
+
+/**
+ * Convierte '30m', '12h', '7d' o '2w' a ms
+ */
+function parseAge(value: string): number {
+  const match = value.trim().match(/^(\d+)\s*([mhdw])$/i);
+  if (!match) throw new Error(`Edad inválida: "${value}" (usar 30m, 12h, 7d, 2w)`);
+  return parseInt(match[1], 10) * AGE_UNITS[match[2].toLowerCase()];
+}
+
+function hasFilters(filter: CacheEntryFilter): boolean {
+  return Object.values(filter).some(value => value !== undefined);
+}
+
+function tokensOf(entry: CacheEntryInfo['entry']): number {
+  return entry.usage ? entry.usage.inputTokens + entry.usage.outputTokens : 0;
+}
+
+function formatAge(timestamp: number): string {
+  const minutes = Math.floor((Date.now() - timestamp) / 60000);
+  if (minutes < 60) return `${minutes}m`;
+  if (minutes < 24 * 60) return `${Math.floor(minutes / 60)}h`;
+  return `${Math.floor(minutes / (24 * 60))}d`;
+}
+
+function listEntries(entries: CacheEntryInfo[]) {
+  if (entries.length === 0) {
+    console.log('ℹ️  No hay entradas que cumplan los filtros');
+    return;
+  }
+
+  for (const { key, url, instruction, entry } of entries) {
+    const failures = entry.failureCount > 0 ? ` ⚠️ ${entry.failureCount} fallos` : '';
+    console.log(`\n📄 ${url}  "${instruction}"`);
+    console.log(`   ✅ ${entry.successCount} éxitos${failures} · ${entry.actions.length} acciones · creada hace ${formatAge(entry.timestamp)} · último éxito hace ${formatAge(entry.lastSuccess)}`);
+    console.log(`   🔑 ${key}`);
+  }
+  console.log(`\n${entries.length} entradas`);
+}
+
+function showEntries(entries: CacheEntryInfo[]) {
+  if (entries.length === 0) {
+    console.log('ℹ️  No hay entradas que cumplan los filtros');
+    return;
+  }
+
+  for (const { key, url, instruction, entry } of entries) {
+    console.log('\n' + '─'.repeat(60));
+    console.log(`🔑 ${key}`);
+    console.log(`   Ruta: ${url}`);
+    console.log(`   Instrucción: ${instruction}`);
+    console.log(`   Creada: ${new Date(entry.timestamp).toLocaleString()} · Último éxito: ${new Date(entry.lastSuccess).toLocaleString()}`);
+    console.log(`   Éxitos: ${entry.successCount} · Fallos consecutivos: ${entry.failureCount}`);
+    if (entry.usage) {
+      console.log(`   Consulta original: ${entry.usage.inputTokens + entry.usage.outputTokens} tokens (${entry.usage.model})`);
+    }
+    if (entry.appVersion || entry.fingerprint) {
+      console.log(`   Versión de la app: ${entry.appVersion || '-'} · Huella: ${entry.fingerprint?.length ?? 0} elementos`);
+    }
+    console.log(`   Razonamiento: ${entry.reasoning}`);
+    entry.actions.forEach((action, i) => {
+      const value = action.value !== undefined ? ` = "${action.value}"` : '';
+      console.log(`   ${i + 1}. [${action.actionType}] ${action.selector}${value}`);
+      action.verifications?.forEach(item => console.log(`      • ${item.type}: ${item.target}`));
+    });
+  }
+}
+
+function printStats(entries: CacheEntryInfo[]) {
+  const byUrl = new Map<string, CacheEntryInfo[]>();
+  for (const info of entries) {
+    byUrl.set(info.url, [...(byUrl.get(info.url) || []), info]);
+  }
+  const tokensSaved = entries.reduce((sum, { entry }) => sum + tokensOf(entry) * Math.max(entry.successCount - 1, 0), 0);
+
+  console.log('\n' + '='.repeat(50));
+  console.log('📊 CACHÉ DE SELECTORES');
+  console.log('='.repeat(50));
+  console.log(`   Entradas: ${entries.length} en ${byUrl.size} rutas`);
+  console.log(`   Éxitos acumulados: ${entries.reduce((sum, { entry }) => sum + entry.successCount, 0)}`);
+  console.log(`   Con fallos: ${entries.filter(({ entry }) => entry.failureCount > 0).length}`);
+  console.log(`   Tokens ahorrados (estimado): ~${tokensSaved}`);
+  if (entries.length > 0) {
+    const timestamps = entries.map(({ entry }) => entry.timestamp);
+    console.log(`   Más antigua: ${new Date(Math.min(...timestamps)).toLocaleString()}`);
+    console.log(`   Más nueva: ${new Date(Math.max(...timestamps)).toLocaleString()}`);
+  }
+
+  console.log('\n   Por ruta:');
+  [...byUrl.entries()]
+    .sort((a, b) => b[1].length - a[1].length)
+    .forEach(([url, infos]) => {
+      const failing = infos.filter(({ entry }) => entry.failureCount > 0).length;
+      console.log(`   ${String(infos.length).padStart(5)}  ${url}${failing > 0 ? `  (⚠️ ${failing} con fallos)` : ''}`);
+    });
+  console.log('='.repeat(50) + '\n');
+}
@@ -10,10 +10,16 @@
  *   npx ai-test run --name "Login"     # Filtrar por nombre
  *   npx ai-test run --headless         # Modo sin interfaz
  *   npx ai-test run --fail-fast        # Detener al primer error
+ *   npx ai-test run --env staging      # Usar el ambiente 'staging' de ai-test.config.ts
+ *   npx ai-test cache list             # Ver los selectores aprendidos (ver cache-command.ts)
  */
 
 import { FlowRunner, RunnerOptions } from '../runner/index.js';
 import { loadConfig } from '../config/index.js';
+import { runCacheCommand } from './cache-command.js';
+
+/** Opciones de 'run' (las del runner más el ambiente y el uso del LLM) */
+type RunCommandOptions = RunnerOptions & { environment?: string; aiMode?: 'strict' | 'learn' };
 
 async function main() {
   const args = process.argv.slice(2);
@@ -27,6 +33,8 @@ async function main() {
   if (command === 'run') {
     const options = parseRunOptions(args.slice(1));
     await runTests(options);
+  } else if (command === 'cache') {
+    await runCacheCommand(args.slice(1));
   } else {
     console.error(`❌ Comando desconocido: ${command}`);
     printHelp();
@@ -43,6 +51,7 @@ Uso:
 
 Comandos:
   run       Ejecutar tests
+  cache     Inspeccionar y administrar el caché de selectores (ai-test cache help)
   help      Mostrar esta ayuda
 
 Opciones de 'run':
@@ -54,6 +63,9 @@ Opciones de 'run':
   --fail-fast         Detener al primer error
   --no-report         No generar reporte HTML
   --retries <n>       Reintentos por test fallido
+  --env <ambiente>    Ambiente de ai-test.config.ts (baseUrl, variables, .env, IA)
+  --cache-only        Solo caché: los pasos no aprendidos fallan sin consultar al LLM
+  --learn             Consultar al LLM en todos los pasos para (re)aprenderlos en el caché
 
 Ejemplos:
   npx ai-test run                           # Todos los tests
@@ -61,12 +73,15 @@ Ejemplos:
   npx ai-test run --tag login --tag api     # Tests con tag login O api
   npx ai-test run --exclude slow            # Excluir tests lentos
   npx ai-test run --name "operador"         # Tests que contengan "operador"
+  npx ai-test run --name "fila 2"           # Solo la fila 2 de los flows con dataset
   npx ai-test run --headless --fail-fast    # CI/CD mode
+  npx ai-test run --env staging --tag smoke # Smoke tests contra staging
+  npx ai-test run --tag smoke --cache-only  # Smoke en cada commit, 0 tokens
 `);
 }
 
-function parseRunOptions(args: string[]): RunnerOptions {
-  const options: RunnerOptions = {
+function parseRunOptions(args: string[]): RunCommandOptions {
+  const options: RunCommandOptions = {
     tags: [],
     excludeTags: []
   };
@@ -134,6 +149,21 @@ function parseRunOptions(args: string[]): RunnerOptions {
           i++;
         }
         break;
+        
+      case '--env':
+        if (nextArg) {
+          options.environment = nextArg;
+          i++;
+        }
+        break;
+        
+      case '--cache-only':
+        options.aiMode = 'strict';
+        break;
+        
+      case '--learn':
+        options.aiMode = 'learn';
+        break;
     }
   }
   
@@ -144,12 +174,15 @@ function parseRunOptions(args: string[]): RunnerOptions {
   return options;
 }
 
-async function runTests(cliOptions: RunnerOptions) {
+async function runTests(cliOptions: RunCommandOptions) {
   console.log('\n🤖 AI Test Runner v1.0.0\n');
   
-  // Cargar configuración desde archivo
-  const config = await loadConfig();
+  // Cargar configuración desde archivo (con el ambiente elegido)
+  const config = await loadConfig(undefined, cliOptions.environment || process.env.AI_TEST_ENV);
   console.log('📝 Configuración cargada desde ai-test.config.ts');
+  if (cliOptions.aiMode) {
+    config.ai = { ...config.ai, mode: cliOptions.aiMode };
+  }
   
   // Merge: CLI options sobreescriben config file
   const options: RunnerOptions = {
@@ -184,7 +217,7 @@ async function runTests(cliOptions: RunnerOptions) {
   const result = await runner.run();
   
   // Exit code basado en resultados
-  process.exit(result.failed > 0 ? 1 : 0);
+  process.exit(result.failed > 0 || result.timedOut > 0 ? 1 : 0);
 }
 
 // Ejecutar
@@ -1,14 +1,57 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { pathToFileURL } from 'url';
+import * as dotenv from 'dotenv';
 import { AITestConfig, defaultConfig } from './types.js';
 
 export * from './types.js';
 
 /**
  * Carga la configuración desde ai-test.config.ts
+ * @param environment Ambiente a aplicar (default: defaultEnvironment de la config)
  */
-export async function loadConfig(configPath?: string): Promise<AITestConfig> {
+export async function loadConfig(configPath?: string, environment?: string): Promise<AITestConfig> {
+  const config = await loadConfigFile(configPath);
+  const environmentName = environment || config.defaultEnvironment;
+  return environmentName ? applyEnvironment(config, environmentName) : config;
+}
+
+/**
+ * Aplica un ambiente sobre la configuración base
+ * Carga su archivo .env (sobreescribiendo process.env) y combina baseUrl, variables e IA
+ */
+export function applyEnvironment(config: AITestConfig, name: string): AITestConfig {
+  const environment = config.environments?.[name];
+  if (!environment) {
+    const available = Object.keys(config.environments || {});
+    throw new Error(`Ambiente desconocido: '${name}'` +
+      (available.length > 0 ? ` (disponibles: ${available.join(', ')})` : ' (no hay environments en ai-test.config.ts)'));
+  }
+  
+  if (environment.envFile) {
+    const envPath = path.resolve(environment.envFile);
+    if (!fs.existsSync(envPath)) {
+      throw new Error(`No existe el archivo ${environment.envFile} del ambiente '${name}'`);
+    }
+    dotenv.config({ path: envPath, override: true });
+  }
+  
+  console.log(`🌎 Ambiente: ${name}${environment.envFile ? ` (${environment.envFile})` : ''}`);
+  
+  return {
+    ...config,
+    environment: name,
+    baseUrl: environment.baseUrl || config.baseUrl,
+    globalVariables: { ...config.globalVariables, ...environment.globalVariables },
+    ai: {
+      ...config.ai,
+      ...environment.ai,
+      providers: { ...config.ai.providers, ...environment.ai?.providers }
+    }
+  };
+}
+
+async function loadConfigFile(configPath?: string): Promise<AITestConfig> {
   // El archivo ai-test.config.ts se compila a dist/ai-test.config.js
   const possiblePaths = configPath 
     ? [configPath]
@@ -91,11 +134,22 @@ export function getAgentOptions(config: AITestConfig) {
       defaultTTL: config.cache.ttl,
       maxFailures: config.cache.maxFailures,
       debug: config.cache.debug,
-      cacheFilePath: config.selectorCachePath
+      cacheFilePath: config.selectorCachePath,
+      routePatterns: config.cache.routePatterns,
+      normalizeDynamicSegments: config.cache.normalizeDynamicSegments,
+      queryParams: config.cache.queryParams,
+      hashRoutes: config.cache.hashRoutes,
+      appVersion: config.cache.appVersion,
+      appVersionMeta: config.cache.appVersionMeta,
+      maxFingerprintDrift: config.cache.maxFingerprintDrift
     },
-    browserOptions: {
-      headless: config.browser.headless,
-      slowMo: config.browser.slowMo
+    browserOptions: { ...config.browser },
+    llmOptions: {
+      provider: config.ai.provider,
+      providers: config.ai.providers,
+      fixtures: config.ai.fixtures,
+      fallbackProviders: config.ai.fallbackProviders,
+      requestRetry: config.ai.requestRetry
     },
     screenshotOptions: {
       enabled: config.screenshots.enabled,
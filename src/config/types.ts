@@ -32,9 +32,38 @@ export interface AITestConfig {
   // Variables
   baseUrl: string;
   globalVariables: Record<string, string>;
+  /**
+   * Variables secretas además de las detectadas por nombre (PASSWORD, TOKEN, SECRET, API_KEY...)
+   * Se envían a la IA y al caché como ${VAR} y se ocultan (***) en logs y reportes
+   */
+  secretVariables?: string[];
+  
+  // Ambientes
+  /** Ambientes seleccionables con `ai-test run --env <nombre>` */
+  environments?: Record<string, EnvironmentConfig>;
+  /** Ambiente que se usa si no se pasa --env */
+  defaultEnvironment?: string;
+  /** Ambiente aplicado (lo completa loadConfig) */
+  environment?: string;
+}
+
+/**
+ * Ajustes de un ambiente (dev, staging, un tenant...), aplicados sobre la config base
+ */
+export interface EnvironmentConfig {
+  /** URL base del ambiente (acepta ${VAR}) */
+  baseUrl?: string;
+  /** Variables del ambiente (se combinan con globalVariables, con prioridad) */
+  globalVariables?: Record<string, string>;
+  /** Archivo .env del ambiente; sus valores reemplazan a los de .env */
+  envFile?: string;
+  /** Ajustes de IA del ambiente (proveedor, modelos, fallback...) */
+  ai?: Partial<AIConfig>;
 }
 
 export interface BrowserConfig {
+  /** Motor del navegador */
+  browserName: 'chromium' | 'firefox' | 'webkit';
   headless: boolean;
   slowMo: number;
   navigationTimeout: number;
@@ -43,6 +72,18 @@ export interface BrowserConfig {
     width: number;
     height: number;
   };
+  /** Preset de dispositivo de Playwright (ej: 'iPhone 13', 'Pixel 5'). Sobreescribe viewport y userAgent */
+  device?: string;
+  /** Locale del navegador (ej: 'es-BO') */
+  locale?: string;
+  /** Zona horaria (ej: 'America/La_Paz') */
+  timezoneId?: string;
+  /** Geolocalización simulada (otorga el permiso automáticamente) */
+  geolocation?: {
+    latitude: number;
+    longitude: number;
+    accuracy?: number;
+  };
   recordVideo: boolean;
   videoDir: string;
 }
@@ -70,11 +111,70 @@ export interface ScreenshotsConfig {
   embedInHtml: boolean;
 }
 
+export type LLMProviderName = 'google' | 'openai' | 'anthropic' | 'deepseek' | 'azure' | 'ollama';
+
+/**
+ * Ajustes de un proveedor de IA (los no definidos usan el default del proveedor)
+ */
+export interface ProviderSettings {
+  /** Modelo (ej: 'gpt-4o-mini', 'gemini-2.5-pro'). En Azure es el nombre del deployment */
+  model?: string;
+  temperature?: number;
+  /** Máximo de tokens de salida por respuesta (default: 1024) */
+  maxTokens?: number;
+  /** URL base de la API (proxies, gateways, Ollama remoto, endpoint de Azure) */
+  baseURL?: string;
+  /** Timeout de cada request en ms */
+  timeout?: number;
+}
+
+export interface LLMRetryOptions {
+  /** Reintentos por proveedor antes de pasar al siguiente (default: 3) */
+  maxRetries?: number;
+  /** Espera inicial en ms, se duplica en cada reintento (default: 1000) */
+  initialDelayMs?: number;
+  /** Espera máxima en ms (default: 30000) */
+  maxDelayMs?: number;
+}
+
 export interface AIConfig {
   analysisMode: 'html' | 'screenshot' | 'hybrid';
-  provider: 'auto' | 'google' | 'openai' | 'anthropic' | 'deepseek' | 'ollama';
+  /**
+   * Uso del LLM: 'normal' (caché primero), 'strict' (solo caché: un paso no aprendido falla,
+   * ideal para smoke tests en cada commit) o 'learn' (siempre LLM, para poblar el caché)
+   */
+  mode?: 'normal' | 'strict' | 'learn';
+  /**
+   * Proveedor a usar. 'record' graba las respuestas de un proveedor real en fixtures,
+   * 'replay' responde desde esos fixtures sin red (CI determinista)
+   */
+  provider: 'auto' | LLMProviderName | 'record' | 'replay';
+  /** Ajustes por proveedor: modelo, temperatura, max tokens, baseURL y timeout */
+  providers?: Partial<Record<LLMProviderName, ProviderSettings>>;
+  /** Proveedores de respaldo, en orden, si el principal falla (ej: ['openai', 'anthropic']) */
+  fallbackProviders?: LLMProviderName[];
+  /** Reintentos ante rate limit (429), 5xx o timeouts, con backoff exponencial y Retry-After */
+  requestRetry?: LLMRetryOptions;
+  /** Fixtures para los modos 'record' / 'replay' */
+  fixtures?: {
+    /** Directorio de fixtures (default: './llm-fixtures') */
+    dir?: string;
+    /** Proveedor real que se graba (default: 'auto') */
+    recordWith?: 'auto' | LLMProviderName;
+  };
   retryOnCacheFailure: boolean;
   maxRetries: number;
+  /**
+   * Precios por modelo en USD por 1M tokens (se combinan con DEFAULT_PRICING)
+   * La clave puede ser el nombre completo o un prefijo del modelo
+   */
+  pricing?: Record<string, { input: number; output: number }>;
+  /** Máximo de tokens en toda la ejecución (al superarlo no se inician más flows) */
+  maxTokensPerRun?: number;
+  /** Máximo de tokens por flow (incluye reintentos) */
+  maxTokensPerFlow?: number;
+  /** Costo máximo en USD de toda la ejecución */
+  maxCostPerRun?: number;
 }
 
 export interface CacheConfig {
@@ -83,6 +183,20 @@ export interface CacheConfig {
   ttl: number;
   maxFailures: number;
   debug: boolean;
+  /** Patrones de ruta que comparten entradas (ej: '/operadores/:id/editar', '/reportes/*') */
+  routePatterns?: string[];
+  /** Reemplazar segmentos numéricos, uuid y hashes de la URL por :id, :uuid, :hash (default: true) */
+  normalizeDynamicSegments?: boolean;
+  /** Query string en la clave: false = ignorarla (default), true = todos los parámetros, o lista de parámetros */
+  queryParams?: boolean | string[];
+  /** Usar la ruta después de '#/' en SPAs con hash routing (default: true) */
+  hashRoutes?: boolean;
+  /** Versión de la app: las entradas aprendidas con otra versión se ignoran (default: APP_VERSION o meta tag) */
+  appVersion?: string;
+  /** Meta tag con la versión de la app (default: 'app-version') */
+  appVersionMeta?: string;
+  /** Diferencia máxima (0-1) entre la huella del DOM aprendida y la actual (default: 0.5, 1 = no comparar) */
+  maxFingerprintDrift?: number;
 }
 
 export interface ExecutionConfig {
@@ -90,18 +204,60 @@ export interface ExecutionConfig {
   failFast: boolean;
   delayBetweenSteps: number;
   retries: number;
+  /** Tiempo máximo por flow en ms (0 = sin límite) */
   flowTimeout: number;
+  /** Tiempo máximo por paso en ms (opcional, sin límite si no se define) */
+  stepTimeout?: number;
+  /** Directorio donde los flows de setup guardan las sesiones (default: './.auth') */
+  authDir?: string;
+  /** Antigüedad máxima en ms de una sesión antes de re-ejecutar su setup (default: 30 minutos) */
+  authMaxAge?: number;
   parallel: boolean;
   maxWorkers: number;
 }
 
+/**
+ * Cuándo enviar una notificación
+ */
+export type NotifyOn = 'always' | 'on-failure' | 'never';
+
 export interface NotificationsConfig {
   slack: {
     enabled: boolean;
     webhookUrl: string;
-    notifyOn: 'always' | 'on-failure' | 'never';
+    notifyOn: NotifyOn;
     projectName: string;
   };
+  /** Webhook genérico (POST con el resumen en JSON) */
+  webhook?: {
+    enabled: boolean;
+    url: string;
+    notifyOn: NotifyOn;
+    /** Headers adicionales (ej: Authorization) */
+    headers?: Record<string, string>;
+  };
+  /** Microsoft Teams (Incoming Webhook / Workflows) */
+  teams?: {
+    enabled: boolean;
+    webhookUrl: string;
+    notifyOn: NotifyOn;
+  };
+  /** Email vía SMTP */
+  email?: {
+    enabled: boolean;
+    notifyOn: NotifyOn;
+    smtp: {
+      host: string;
+      port: number;
+      secure: boolean;
+      user?: string;
+      pass?: string;
+    };
+    from: string;
+    to: string[];
+  };
+  /** URL pública del reporte (ej: artefacto de CI). Si no se define, se usa la ruta local */
+  reportUrl?: string;
 }
 
 /**
@@ -113,6 +269,7 @@ export const defaultConfig: AITestConfig = {
   selectorCachePath: './selector-cache.json',
   
   browser: {
+    browserName: 'chromium',
     headless: false,
     slowMo: 100,
     navigationTimeout: 30000,
@@ -149,7 +306,13 @@ export const defaultConfig: AITestConfig = {
     maxSize: 500,
     ttl: 24 * 60 * 60 * 1000,
     maxFailures: 3,
-    debug: false
+    debug: false,
+    routePatterns: [],
+    normalizeDynamicSegments: true,
+    queryParams: false,
+    hashRoutes: true,
+    appVersionMeta: 'app-version',
+    maxFingerprintDrift: 0.5
   },
   
   execution: {
@@ -172,5 +335,6 @@ export const defaultConfig: AITestConfig = {
   },
   
   baseUrl: '',
-  globalVariables: {}
+  globalVariables: {},
+  secretVariables: []
 };
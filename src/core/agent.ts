@@ -9,5 +9,7 @@ export type {
   FlowResult, 
   ExecuteParams, 
   ExecuteFlowParams,
-  AnalysisMode 
+  AnalysisMode,
+  FlowStep,
+  FlowStepInput
 } from '../ai-agent.js';
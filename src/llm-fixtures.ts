@@ -0,0 +1,140 @@
+/**
+ * Proveedores de grabación/reproducción de respuestas del LLM
+ *
+ * - RecordingProvider: envuelve un proveedor real y guarda cada respuesta en disco
+ * - ReplayProvider: responde desde esos fixtures, sin red (CI determinista)
+ *
+ * Cada fixture es un archivo `<hash>.json`, donde el hash se calcula sobre
+ * system prompt + prompt + esquema. El screenshot NO forma parte del hash
+ * (cambia píxel a píxel entre ejecuciones): para replay conviene el modo 'html'.
+ * Los valores generados con ${$today}, ${$uuid}... se reemplazan por su expresión antes
+ * de calcular el hash (cambian en cada ejecución); los de menos de 3 caracteres no.
+ */
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { LLMProvider, LLMResponse, AnalyzeOptions } from './llm-providers.js';
+
+/** Directorio de fixtures por defecto */
+export const DEFAULT_FIXTURES_DIR = './llm-fixtures';
+
+/**
+ * Contenido de un fixture en disco
+ */
+export interface LLMFixture {
+  hash: string;
+  /** Proveedor que generó la respuesta al grabar */
+  provider: string;
+  recordedAt: string;
+  /** Prompt original (para inspeccionar el fixture) */
+  prompt: string;
+  hasImage: boolean;
+  response: LLMResponse;
+}
+
+/** Largo mínimo de un valor generado para reemplazarlo (los cortos reemplazarían texto común) */
+const MIN_GENERATED_VALUE_LENGTH = 3;
+
+/**
+ * Calcula el hash de una consulta (independiente del proveedor)
+ */
+export function hashPrompt(prompt: string, systemPrompt?: string, options?: AnalyzeOptions): string {
+  return crypto
+    .createHash('sha256')
+    .update(JSON.stringify({
+      systemPrompt: systemPrompt || '',
+      prompt: normalizeGeneratedValues(prompt, options?.generatedValues),
+      schema: options?.responseSchema || null
+    }))
+    .digest('hex')
+    .substring(0, 16);
+}
+
+/**
+ * Reemplaza los valores generados por su expresión: '20/10/2026' -> '${$today+1d:DD/MM/YYYY}'
+ */
+function normalizeGeneratedValues(prompt: string, generatedValues: Record<string, string> = {}): string {
+  return Object.entries(generatedValues)
+    .filter(([, value]) => value.length >= MIN_GENERATED_VALUE_LENGTH)
+    .sort((a, b) => b[1].length - a[1].length)
+    .reduce((text, [expression, value]) => text.split(value).join(`\${${expression}}`), prompt);
+}
+
+// ============================================
+// RECORD
+// ============================================
+export class RecordingProvider implements LLMProvider {
+  name: string;
+
+  constructor(private inner: LLMProvider, private fixturesDir: string = DEFAULT_FIXTURES_DIR) {
+    this.name = `${inner.name} (grabando)`;
+  }
+
+  async initialize(): Promise<void> {
+    await this.inner.initialize();
+    fs.mkdirSync(this.fixturesDir, { recursive: true });
+    console.log(`📼 Grabando respuestas del LLM en: ${this.fixturesDir}`);
+  }
+
+  async analyzeImage(screenshotBase64: string, prompt: string, systemPrompt?: string, options?: AnalyzeOptions): Promise<LLMResponse> {
+    const response = await this.inner.analyzeImage(screenshotBase64, prompt, systemPrompt, options);
+    const hash = hashPrompt(prompt, systemPrompt, options);
+
+    const fixture: LLMFixture = {
+      hash,
+      provider: this.inner.name,
+      recordedAt: new Date().toISOString(),
+      prompt,
+      hasImage: !!screenshotBase64,
+      response
+    };
+
+    // Escritura atómica: los workers paralelos pueden grabar el mismo prompt
+    const filePath = path.join(this.fixturesDir, `${hash}.json`);
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(fixture, null, 2));
+    fs.renameSync(tempPath, filePath);
+    console.log(`📼 Fixture grabado: ${hash}`);
+
+    return response;
+  }
+}
+
+// ============================================
+// REPLAY
+// ============================================
+export class ReplayProvider implements LLMProvider {
+  name = 'Replay (fixtures)';
+
+  constructor(private fixturesDir: string = DEFAULT_FIXTURES_DIR) {}
+
+  async initialize(): Promise<void> {
+    if (!fs.existsSync(this.fixturesDir)) {
+      throw new Error(`No existe el directorio de fixtures: ${this.fixturesDir}. Graba primero con provider: 'record'`);
+    }
+    const count = fs.readdirSync(this.fixturesDir).filter(f => f.endsWith('.json')).length;
+    console.log(`▶️  Reproduciendo ${count} fixtures desde: ${this.fixturesDir}`);
+  }
+
+  async analyzeImage(_screenshotBase64: string, prompt: string, systemPrompt?: string, options?: AnalyzeOptions): Promise<LLMResponse> {
+    const hash = hashPrompt(prompt, systemPrompt, options);
+    const filePath = path.join(this.fixturesDir, `${hash}.json`);
+
+    if (!fs.existsSync(filePath)) {
+      throw new Error(
+        `❌ Replay: no hay fixture para este prompt (hash ${hash}). ` +
+        `Vuelve a grabar con provider: 'record'.\nPrompt:\n${prompt.substring(0, 500)}`
+      );
+    }
+
+    const fixture = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as LLMFixture;
+    console.log(`▶️  Fixture reproducido: ${hash} (grabado con ${fixture.provider})`);
+
+    // Sin llamada real: 0 tokens, y el modelo no coincide con ningún precio
+    return {
+      text: fixture.response.text,
+      usage: { inputTokens: 0, outputTokens: 0 },
+      model: `replay:${fixture.response.model}`
+    };
+  }
+}
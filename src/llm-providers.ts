@@ -1,7 +1,37 @@
 import Anthropic from '@anthropic-ai/sdk';
-import { GoogleGenerativeAI, GenerativeModel } from '@google/generative-ai';
+import { GoogleGenerativeAI, GenerativeModel, EnhancedGenerateContentResponse, ResponseSchema } from '@google/generative-ai';
 import OpenAI from 'openai';
 import 'dotenv/config';
+import { TokenUsage } from './llm-usage.js';
+import { LLMProviderName, ProviderSettings, LLMRetryOptions } from './config/types.js';
+import { AI_ACTION_TYPES, AI_DECISION_SCHEMA_NAME, JsonSchema } from './ai-decision-schema.js';
+import { RecordingProvider, ReplayProvider } from './llm-fixtures.js';
+import { aiCallSemaphore } from './utils/locks.js';
+import { withRetry } from './utils/parallel-pool.js';
+
+/**
+ * Respuesta de un proveedor: texto generado + tokens consumidos
+ */
+export interface LLMResponse {
+  text: string;
+  usage: TokenUsage;
+  /** Modelo que respondió (para calcular el costo) */
+  model: string;
+  /** Proveedor que respondió (lo completa FallbackProvider) */
+  provider?: string;
+}
+
+/**
+ * Opciones de una consulta al LLM
+ */
+export interface AnalyzeOptions {
+  /** Esquema JSON de la respuesta: se usa la salida estructurada nativa del proveedor */
+  responseSchema?: JsonSchema;
+  /** Cancela la consulta en curso (timeout del paso o del flow) */
+  signal?: AbortSignal;
+  /** Valores generados con ${$...} (expresión -> valor): record/replay los excluyen del hash */
+  generatedValues?: Record<string, string>;
+}
 
 /**
  * Interfaz común para todos los proveedores de LLM
@@ -9,17 +39,33 @@ import 'dotenv/config';
 export interface LLMProvider {
   name: string;
   initialize(): Promise<void>;
-  analyzeImage(screenshotBase64: string, prompt: string, systemPrompt?: string): Promise<string>;
+  analyzeImage(screenshotBase64: string, prompt: string, systemPrompt?: string, options?: AnalyzeOptions): Promise<LLMResponse>;
 }
 
+/**
+ * Tipos de acción soportados por el agente (declarados en ai-decision-schema.ts)
+ */
+export type AIActionType = typeof AI_ACTION_TYPES[number];
+
 /**
  * Respuesta de análisis de la IA
  */
 export interface AIAction {
-  type: 'fill' | 'click' | 'press' | 'wait' | 'verify' | 'verifyAll';
+  type: AIActionType;
   description: string;
   locator: string;
+  /**
+   * Valor de la acción:
+   * - fill: texto a ingresar
+   * - select: opción a seleccionar (texto visible)
+   * - check: 'true' para marcar, 'false' para desmarcar (default: 'true')
+   * - upload: ruta(s) de archivo separadas por coma
+   * - press: tecla / wait: milisegundos
+   * - extract: nombre de la variable donde guardar el texto (ej: 'OP_ID')
+   */
   value?: string;
+  /** Para extract: regex para quedarse con parte del texto (el primer grupo si lo tiene) */
+  pattern?: string;
   /** Para verifyAll: lista de verificaciones a realizar */
   verifications?: VerifyItem[];
 }
@@ -56,26 +102,105 @@ export interface AIDecision {
   fromCache?: boolean;
 }
 
+/**
+ * Modelos por defecto de cada proveedor (si no se configura `model`)
+ */
+export const DEFAULT_MODELS: Record<LLMProviderName, string> = {
+  anthropic: 'claude-3-5-sonnet-20241022',
+  google: 'gemini-2.5-flash',
+  openai: 'gpt-4o',
+  deepseek: 'deepseek-chat',
+  azure: 'gpt-4o',
+  ollama: 'llava'
+};
+
+/** Máximo de tokens de salida por defecto */
+const DEFAULT_MAX_TOKENS = 1024;
+
+/**
+ * response_format de OpenAI: json_schema (o json_object en APIs compatibles sin soporte de esquemas)
+ */
+function toOpenAIResponseFormat(options: AnalyzeOptions | undefined, schemaSupported: boolean) {
+  if (!options?.responseSchema) return undefined;
+  if (!schemaSupported) return { type: 'json_object' as const };
+  return {
+    type: 'json_schema' as const,
+    json_schema: {
+      name: AI_DECISION_SCHEMA_NAME,
+      // strict exige que todos los campos sean requeridos; la validación la hace el agente
+      strict: false,
+      schema: options.responseSchema as unknown as Record<string, unknown>
+    }
+  };
+}
+
+/**
+ * Convierte el esquema al formato de Gemini (los enums de string requieren format: 'enum')
+ */
+function toGeminiSchema(schema: JsonSchema): ResponseSchema {
+  return {
+    ...schema,
+    ...(schema.enum ? { format: 'enum', enum: [...schema.enum] } : {}),
+    ...(schema.items ? { items: toGeminiSchema(schema.items) } : {}),
+    ...(schema.properties
+      ? { properties: Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])) }
+      : {})
+  } as unknown as ResponseSchema;
+}
+
+/**
+ * Convierte una respuesta de la API de OpenAI (o compatible) a LLMResponse
+ */
+function toOpenAIResponse(response: OpenAI.Chat.Completions.ChatCompletion): LLMResponse {
+  return {
+    text: response.choices[0].message.content || '',
+    usage: {
+      inputTokens: response.usage?.prompt_tokens ?? 0,
+      outputTokens: response.usage?.completion_tokens ?? 0
+    },
+    model: response.model
+  };
+}
+
 // ============================================
 // ANTHROPIC (Claude)
 // ============================================
 export class AnthropicProvider implements LLMProvider {
   name = 'Anthropic Claude';
   private client: Anthropic | null = null;
+  private model: string;
   
-  constructor(private apiKey: string) {}
+  constructor(private apiKey: string, private settings: ProviderSettings = {}) {
+    this.model = settings.model || DEFAULT_MODELS.anthropic;
+  }
 
   async initialize(): Promise<void> {
-    this.client = new Anthropic({ apiKey: this.apiKey });
+    this.client = new Anthropic({
+      apiKey: this.apiKey,
+      baseURL: this.settings.baseURL,
+      timeout: this.settings.timeout,
+      // Los reintentos los maneja FallbackProvider (respetando Retry-After)
+      maxRetries: 0
+    });
   }
 
-  async analyzeImage(screenshotBase64: string, prompt: string, systemPrompt?: string): Promise<string> {
+  async analyzeImage(screenshotBase64: string, prompt: string, systemPrompt?: string, options?: AnalyzeOptions): Promise<LLMResponse> {
     if (!this.client) throw new Error('Cliente no inicializado');
     
     const response = await this.client.messages.create({
-      model: 'claude-3-5-sonnet-20241022',
-      max_tokens: 1024,
+      model: this.model,
+      max_tokens: this.settings.maxTokens ?? DEFAULT_MAX_TOKENS,
+      temperature: this.settings.temperature,
       system: systemPrompt || undefined,
+      // Salida estructurada: forzar el uso de una herramienta cuyo input es el esquema
+      ...(options?.responseSchema ? {
+        tools: [{
+          name: AI_DECISION_SCHEMA_NAME,
+          description: 'Devuelve las acciones a ejecutar en la página',
+          input_schema: options.responseSchema as unknown as Anthropic.Tool.InputSchema
+        }],
+        tool_choice: { type: 'tool' as const, name: AI_DECISION_SCHEMA_NAME }
+      } : {}),
       messages: [{
         role: 'user',
         content: screenshotBase64 
@@ -92,11 +217,22 @@ export class AnthropicProvider implements LLMProvider {
             ]
           : prompt
       }]
-    });
+    }, { signal: options?.signal });
     
-    const content = response.content[0];
-    if (content.type === 'text') {
-      return content.text;
+    const usage = {
+      inputTokens: response.usage.input_tokens,
+      outputTokens: response.usage.output_tokens
+    };
+    
+    // Con tool use, el JSON viene como input de la herramienta
+    const toolUse = response.content.find(block => block.type === 'tool_use');
+    if (toolUse && toolUse.type === 'tool_use') {
+      return { text: JSON.stringify(toolUse.input), usage, model: response.model };
+    }
+    
+    const content = response.content.find(block => block.type === 'text');
+    if (content && content.type === 'text') {
+      return { text: content.text, usage, model: response.model };
     }
     throw new Error('Respuesta inesperada de Anthropic');
   }
@@ -109,31 +245,51 @@ export class GoogleAIProvider implements LLMProvider {
   name = 'Google Gemini';
   private model: GenerativeModel | null = null;
   private genAI: GoogleGenerativeAI | null = null;
+  private modelName: string;
   
-  constructor(private apiKey: string) {}
+  constructor(private apiKey: string, private settings: ProviderSettings = {}) {
+    this.modelName = settings.model || DEFAULT_MODELS.google;
+  }
 
   async initialize(): Promise<void> {
     this.genAI = new GoogleGenerativeAI(this.apiKey);
     // Inicializar el modelo básico, luego podremos crear versiones con systemInstruction
-    this.model = this.genAI.getGenerativeModel({ model: 'gemini-2.5-flash' });
+    this.model = this.createModel();
   }
 
-  async analyzeImage(screenshotBase64: string, prompt: string, systemPrompt?: string): Promise<string> {
+  /**
+   * Crea el modelo con los ajustes configurados (systemInstruction y responseSchema opcionales)
+   */
+  private createModel(systemInstruction?: string, responseSchema?: JsonSchema): GenerativeModel {
+    return this.genAI!.getGenerativeModel(
+      {
+        model: this.modelName,
+        systemInstruction,
+        generationConfig: {
+          temperature: this.settings.temperature,
+          maxOutputTokens: this.settings.maxTokens,
+          ...(responseSchema ? {
+            responseMimeType: 'application/json',
+            responseSchema: toGeminiSchema(responseSchema)
+          } : {})
+        }
+      },
+      { baseUrl: this.settings.baseURL, timeout: this.settings.timeout }
+    );
+  }
+
+  async analyzeImage(screenshotBase64: string, prompt: string, systemPrompt?: string, options?: AnalyzeOptions): Promise<LLMResponse> {
     if (!this.genAI) throw new Error('Modelo no inicializado');
     
-    // Si hay systemPrompt, crear un modelo con systemInstruction (cacheable)
-    const modelToUse = systemPrompt
-      ? this.genAI.getGenerativeModel({ 
-          model: 'gemini-2.5-flash',
-          systemInstruction: systemPrompt
-        })
+    // Si hay systemPrompt o esquema, crear un modelo con systemInstruction (cacheable) / responseSchema
+    const modelToUse = systemPrompt || options?.responseSchema
+      ? this.createModel(systemPrompt, options?.responseSchema)
       : this.model!;
     
     // Si no hay imagen, enviar solo texto (modo HTML - más barato)
     if (!screenshotBase64) {
-      const result = await modelToUse.generateContent(prompt);
-      const response = await result.response;
-      return response.text();
+      const result = await modelToUse.generateContent(prompt, { signal: options?.signal });
+      return this.toLLMResponse(result.response);
     }
     
     // Con imagen (modo screenshot o hybrid)
@@ -144,9 +300,19 @@ export class GoogleAIProvider implements LLMProvider {
       }
     };
 
-    const result = await modelToUse.generateContent([prompt, imagePart]);
-    const response = await result.response;
-    return response.text();
+    const result = await modelToUse.generateContent([prompt, imagePart], { signal: options?.signal });
+    return this.toLLMResponse(result.response);
+  }
+
+  private toLLMResponse(response: EnhancedGenerateContentResponse): LLMResponse {
+    return {
+      text: response.text(),
+      usage: {
+        inputTokens: response.usageMetadata?.promptTokenCount ?? 0,
+        outputTokens: response.usageMetadata?.candidatesTokenCount ?? 0
+      },
+      model: this.modelName
+    };
   }
 }
 
@@ -156,14 +322,23 @@ export class GoogleAIProvider implements LLMProvider {
 export class OpenAIProvider implements LLMProvider {
   name = 'OpenAI GPT-4';
   private client: OpenAI | null = null;
+  private model: string;
   
-  constructor(private apiKey: string) {}
+  constructor(private apiKey: string, private settings: ProviderSettings = {}) {
+    this.model = settings.model || DEFAULT_MODELS.openai;
+  }
 
   async initialize(): Promise<void> {
-    this.client = new OpenAI({ apiKey: this.apiKey });
+    this.client = new OpenAI({
+      apiKey: this.apiKey,
+      baseURL: this.settings.baseURL,
+      timeout: this.settings.timeout,
+      // Los reintentos los maneja FallbackProvider (respetando Retry-After)
+      maxRetries: 0
+    });
   }
 
-  async analyzeImage(screenshotBase64: string, prompt: string, systemPrompt?: string): Promise<string> {
+  async analyzeImage(screenshotBase64: string, prompt: string, systemPrompt?: string, options?: AnalyzeOptions): Promise<LLMResponse> {
     if (!this.client) throw new Error('Cliente no inicializado');
     
     // Construir mensajes con system prompt opcional
@@ -176,11 +351,13 @@ export class OpenAIProvider implements LLMProvider {
     if (!screenshotBase64) {
       messages.push({ role: 'user', content: prompt });
       const response = await this.client.chat.completions.create({
-        model: 'gpt-4o',
-        max_tokens: 1024,
+        model: this.model,
+        max_tokens: this.settings.maxTokens ?? DEFAULT_MAX_TOKENS,
+        temperature: this.settings.temperature,
+        response_format: toOpenAIResponseFormat(options, true),
         messages
-      });
-      return response.choices[0].message.content || '';
+      }, { signal: options?.signal });
+      return toOpenAIResponse(response);
     }
     
     // Con imagen
@@ -198,12 +375,14 @@ export class OpenAIProvider implements LLMProvider {
     });
     
     const response = await this.client.chat.completions.create({
-      model: 'gpt-4o',
-      max_tokens: 1024,
+      model: this.model,
+      max_tokens: this.settings.maxTokens ?? DEFAULT_MAX_TOKENS,
+      temperature: this.settings.temperature,
+      response_format: toOpenAIResponseFormat(options, true),
       messages
-    });
+    }, { signal: options?.signal });
     
-    return response.choices[0].message.content || '';
+    return toOpenAIResponse(response);
   }
 }
 
@@ -213,17 +392,22 @@ export class OpenAIProvider implements LLMProvider {
 export class DeepSeekProvider implements LLMProvider {
   name = 'DeepSeek';
   private client: OpenAI | null = null;
+  private model: string;
   
-  constructor(private apiKey: string) {}
+  constructor(private apiKey: string, private settings: ProviderSettings = {}) {
+    this.model = settings.model || DEFAULT_MODELS.deepseek;
+  }
 
   async initialize(): Promise<void> {
     this.client = new OpenAI({ 
       apiKey: this.apiKey,
-      baseURL: 'https://api.deepseek.com/v1'
+      baseURL: this.settings.baseURL || 'https://api.deepseek.com/v1',
+      timeout: this.settings.timeout,
+      maxRetries: 0
     });
   }
 
-  async analyzeImage(screenshotBase64: string, prompt: string, systemPrompt?: string): Promise<string> {
+  async analyzeImage(screenshotBase64: string, prompt: string, systemPrompt?: string, options?: AnalyzeOptions): Promise<LLMResponse> {
     if (!this.client) throw new Error('Cliente no inicializado');
     
     // Construir mensajes con system prompt opcional
@@ -236,11 +420,13 @@ export class DeepSeekProvider implements LLMProvider {
     if (!screenshotBase64) {
       messages.push({ role: 'user', content: prompt });
       const response = await this.client.chat.completions.create({
-        model: 'deepseek-chat',
-        max_tokens: 1024,
+        model: this.model,
+        max_tokens: this.settings.maxTokens ?? DEFAULT_MAX_TOKENS,
+        temperature: this.settings.temperature,
+        response_format: toOpenAIResponseFormat(options, false),
         messages
-      });
-      return response.choices[0].message.content || '';
+      }, { signal: options?.signal });
+      return toOpenAIResponse(response);
     }
     
     // Con imagen
@@ -258,12 +444,14 @@ export class DeepSeekProvider implements LLMProvider {
     });
     
     const response = await this.client.chat.completions.create({
-      model: 'deepseek-chat',
-      max_tokens: 1024,
+      model: this.model,
+      max_tokens: this.settings.maxTokens ?? DEFAULT_MAX_TOKENS,
+      temperature: this.settings.temperature,
+      response_format: toOpenAIResponseFormat(options, false),
       messages
-    });
+    }, { signal: options?.signal });
     
-    return response.choices[0].message.content || '';
+    return toOpenAIResponse(response);
   }
 }
 
@@ -272,14 +460,29 @@ export class DeepSeekProvider implements LLMProvider {
 // ============================================
 interface OllamaResponse {
   response: string;
+  prompt_eval_count?: number;
+  eval_count?: number;
 }
 
 export class OllamaProvider implements LLMProvider {
   name = 'Ollama (Local)';
   private model: string;
+  private baseUrl: string;
   
-  constructor(private baseUrl: string = 'http://localhost:11434') {
-    this.model = process.env.OLLAMA_MODEL || 'llava';
+  constructor(baseUrl?: string, private settings: ProviderSettings = {}) {
+    this.baseUrl = settings.baseURL || baseUrl || 'http://localhost:11434';
+    this.model = settings.model || process.env.OLLAMA_MODEL || DEFAULT_MODELS.ollama;
+  }
+
+  /**
+   * Combina el timeout configurado con la señal de cancelación del paso
+   */
+  private createSignal(signal?: AbortSignal): AbortSignal | undefined {
+    const signals = [
+      signal,
+      this.settings.timeout ? AbortSignal.timeout(this.settings.timeout) : undefined
+    ].filter((s): s is AbortSignal => !!s);
+    return signals.length > 1 ? AbortSignal.any(signals) : signals[0];
   }
 
   async initialize(): Promise<void> {
@@ -292,7 +495,7 @@ export class OllamaProvider implements LLMProvider {
     }
   }
 
-  async analyzeImage(screenshotBase64: string, prompt: string, systemPrompt?: string): Promise<string> {
+  async analyzeImage(screenshotBase64: string, prompt: string, systemPrompt?: string, options?: AnalyzeOptions): Promise<LLMResponse> {
     // Ollama: agregar systemPrompt como prefijo en el prompt si está presente
     const fullPrompt = systemPrompt ? `${systemPrompt}\n\n${prompt}` : prompt;
     
@@ -303,12 +506,34 @@ export class OllamaProvider implements LLMProvider {
         model: this.model,
         prompt: fullPrompt,
         images: [screenshotBase64],
-        stream: false
-      })
+        stream: false,
+        // Ollama acepta un JSON Schema en `format` (salida estructurada)
+        format: options?.responseSchema,
+        options: {
+          temperature: this.settings.temperature,
+          num_predict: this.settings.maxTokens
+        }
+      }),
+      signal: this.createSignal(options?.signal)
     });
 
+    if (!response.ok) {
+      // status y headers permiten reintentar (429/5xx) respetando Retry-After
+      throw Object.assign(new Error(`Ollama respondió ${response.status} ${response.statusText}`), {
+        status: response.status,
+        headers: response.headers
+      });
+    }
+
     const data = await response.json() as OllamaResponse;
-    return data.response;
+    return {
+      text: data.response,
+      usage: {
+        inputTokens: data.prompt_eval_count ?? 0,
+        outputTokens: data.eval_count ?? 0
+      },
+      model: this.model
+    };
   }
 }
 
@@ -320,8 +545,9 @@ export class AzureOpenAIProvider implements LLMProvider {
   private client: OpenAI | null = null;
   private deploymentName: string;
   
-  constructor(private apiKey: string, private endpoint: string) {
-    this.deploymentName = process.env.AZURE_OPENAI_DEPLOYMENT || 'gpt-4o';
+  constructor(private apiKey: string, private endpoint: string, private settings: ProviderSettings = {}) {
+    this.endpoint = settings.baseURL || endpoint;
+    this.deploymentName = settings.model || process.env.AZURE_OPENAI_DEPLOYMENT || DEFAULT_MODELS.azure;
   }
 
   async initialize(): Promise<void> {
@@ -333,11 +559,13 @@ export class AzureOpenAIProvider implements LLMProvider {
       apiKey: this.apiKey,
       baseURL: `${this.endpoint}/openai/deployments/${this.deploymentName}`,
       defaultQuery: { 'api-version': '2024-02-15-preview' },
-      defaultHeaders: { 'api-key': this.apiKey }
+      defaultHeaders: { 'api-key': this.apiKey },
+      timeout: this.settings.timeout,
+      maxRetries: 0
     });
   }
 
-  async analyzeImage(screenshotBase64: string, prompt: string, systemPrompt?: string): Promise<string> {
+  async analyzeImage(screenshotBase64: string, prompt: string, systemPrompt?: string, options?: AnalyzeOptions): Promise<LLMResponse> {
     if (!this.client) throw new Error('Cliente no inicializado');
     
     // Construir mensajes con system prompt opcional
@@ -361,77 +589,222 @@ export class AzureOpenAIProvider implements LLMProvider {
     
     const response = await this.client.chat.completions.create({
       model: this.deploymentName,
-      max_tokens: 1024,
+      max_tokens: this.settings.maxTokens ?? DEFAULT_MAX_TOKENS,
+      temperature: this.settings.temperature,
+      response_format: toOpenAIResponseFormat(options, false),
       messages
-    });
+    }, { signal: options?.signal });
     
-    return response.choices[0].message.content || '';
+    return toOpenAIResponse(response);
   }
 }
 
 // ============================================
-// FACTORY: Crear proveedor según configuración
+// FALLBACK: Cadena de proveedores con reintentos
 // ============================================
-export function createLLMProvider(): LLMProvider {
-  const provider = process.env.LLM_PROVIDER?.toLowerCase() || 'auto';
-  
-  // Auto-detectar según qué API key esté configurada
-  if (provider === 'auto') {
-    if (process.env.GOOGLE_AI_API_KEY) {
-      console.log('🔍 Detectado: Google AI API Key');
-      return new GoogleAIProvider(process.env.GOOGLE_AI_API_KEY);
-    }
-    if (process.env.OPENAI_API_KEY) {
-      console.log('🔍 Detectado: OpenAI API Key');
-      return new OpenAIProvider(process.env.OPENAI_API_KEY);
-    }
-    if (process.env.ANTHROPIC_API_KEY) {
-      console.log('🔍 Detectado: Anthropic API Key');
-      return new AnthropicProvider(process.env.ANTHROPIC_API_KEY);
+
+/**
+ * Status HTTP de un error de SDK (OpenAI/Anthropic: `status`, Gemini: "[429 Too Many Requests]" en el mensaje)
+ */
+function getErrorStatus(error: any): number | undefined {
+  if (typeof error?.status === 'number') return error.status;
+  const match = /\[(\d{3})[^\]]*\]/.exec(error?.message || '');
+  return match ? Number(match[1]) : undefined;
+}
+
+/**
+ * Indica si un error es transitorio: rate limit, 5xx, timeouts o errores de red
+ */
+export function isRetryableLLMError(error: Error): boolean {
+  const status = getErrorStatus(error);
+  if (status !== undefined) return status === 408 || status === 429 || status >= 500;
+  return /rate limit|quota|overloaded|timeout|timed out|ECONNRESET|ETIMEDOUT|ECONNREFUSED|fetch failed/i.test(error.message);
+}
+
+/**
+ * Espera pedida por el servidor en ms: header Retry-After (segundos o fecha HTTP)
+ * o `retryDelay` de Gemini ("30s")
+ */
+export function getRetryAfterMs(error: any): number | undefined {
+  const headers = error?.headers;
+  const retryAfter = typeof headers?.get === 'function' ? headers.get('retry-after') : headers?.['retry-after'];
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (!isNaN(seconds)) return seconds * 1000;
+    const date = Date.parse(retryAfter);
+    if (!isNaN(date)) return Math.max(0, date - Date.now());
+  }
+
+  const retryInfo = Array.isArray(error?.errorDetails)
+    ? error.errorDetails.find((detail: any) => detail?.retryDelay)
+    : undefined;
+  if (retryInfo) {
+    const seconds = parseFloat(retryInfo.retryDelay);
+    if (!isNaN(seconds)) return seconds * 1000;
+  }
+
+  return undefined;
+}
+
+export class FallbackProvider implements LLMProvider {
+  name: string;
+  private active: LLMProvider[] = [];
+
+  constructor(private providers: LLMProvider[], private retry: LLMRetryOptions = {}) {
+    this.name = providers.map(p => p.name).join(' → ');
+  }
+
+  async initialize(): Promise<void> {
+    // Con un solo proveedor, el error de inicialización se propaga tal cual
+    if (this.providers.length === 1) {
+      await this.providers[0].initialize();
+      this.active = [...this.providers];
+      return;
     }
-    if (process.env.DEEPSEEK_API_KEY) {
-      console.log('🔍 Detectado: DeepSeek API Key');
-      return new DeepSeekProvider(process.env.DEEPSEEK_API_KEY);
+
+    for (const provider of this.providers) {
+      try {
+        await provider.initialize();
+        this.active.push(provider);
+      } catch (error) {
+        console.warn(`⚠️  No se pudo inicializar ${provider.name}, se omite de la cadena: ${(error as Error).message}`);
+      }
     }
-    if (process.env.AZURE_OPENAI_API_KEY && process.env.AZURE_OPENAI_ENDPOINT) {
-      console.log('🔍 Detectado: Azure OpenAI API Key');
-      return new AzureOpenAIProvider(
-        process.env.AZURE_OPENAI_API_KEY,
-        process.env.AZURE_OPENAI_ENDPOINT
-      );
+
+    if (this.active.length === 0) {
+      throw new Error(`Ningún proveedor de la cadena pudo inicializarse (${this.name})`);
     }
-    if (process.env.OLLAMA_ENABLED === 'true') {
-      console.log('🔍 Detectado: Ollama (Local)');
-      return new OllamaProvider(process.env.OLLAMA_URL);
+    this.name = this.active.map(p => p.name).join(' → ');
+  }
+
+  async analyzeImage(screenshotBase64: string, prompt: string, systemPrompt?: string, options?: AnalyzeOptions): Promise<LLMResponse> {
+    let lastError: Error | null = null;
+
+    for (let i = 0; i < this.active.length; i++) {
+      const provider = this.active[i];
+      try {
+        // El semáforo limita las llamadas concurrentes de los workers paralelos
+        // (se libera durante la espera entre reintentos)
+        const response = await withRetry(
+          () => aiCallSemaphore.withPermit(() => provider.analyzeImage(screenshotBase64, prompt, systemPrompt, options)),
+          {
+            maxRetries: this.retry.maxRetries ?? 3,
+            initialDelayMs: this.retry.initialDelayMs ?? 1000,
+            maxDelayMs: this.retry.maxDelayMs ?? 30000,
+            // Si el paso fue cancelado no tiene sentido reintentar
+            retryOn: error => !options?.signal?.aborted && isRetryableLLMError(error),
+            getDelayMs: getRetryAfterMs,
+            signal: options?.signal
+          }
+        );
+        return { ...response, provider: provider.name };
+      } catch (error) {
+        lastError = error as Error;
+        if (options?.signal?.aborted) throw lastError;
+        const next = this.active[i + 1];
+        if (next) {
+          console.warn(`🔀 ${provider.name} falló (${lastError.message.substring(0, 120)}). Probando con ${next.name}...`);
+        }
+      }
     }
-    
-    throw new Error(`
-❌ No se encontró ninguna API key configurada.
 
-Configura una de estas en tu archivo .env:
-  - GOOGLE_AI_API_KEY     (Google AI Studio - Gemini) [GRATIS]
-  - OPENAI_API_KEY        (OpenAI GPT-4)
-  - ANTHROPIC_API_KEY     (Anthropic Claude)
-  - DEEPSEEK_API_KEY      (DeepSeek)
-  - AZURE_OPENAI_API_KEY  (Azure OpenAI)
-  - OLLAMA_ENABLED=true   (Ollama local) [GRATIS]
-    `);
+    throw lastError!;
+  }
+}
+
+// ============================================
+// FACTORY: Crear proveedor según configuración
+// ============================================
+
+/**
+ * Opciones para crear el proveedor (normalmente desde AIConfig)
+ */
+export interface LLMProviderOptions {
+  /** Proveedor a usar; con 'auto' (o sin definir) se usa LLM_PROVIDER o se detecta desde .env */
+  provider?: 'auto' | LLMProviderName | 'record' | 'replay';
+  /** Ajustes por proveedor */
+  providers?: Partial<Record<LLMProviderName, ProviderSettings>>;
+  /** Fixtures para 'record' / 'replay' */
+  fixtures?: { dir?: string; recordWith?: 'auto' | LLMProviderName };
+  /** Proveedores de respaldo, en orden */
+  fallbackProviders?: LLMProviderName[];
+  /** Reintentos ante errores transitorios */
+  requestRetry?: LLMRetryOptions;
+  /** Modelo que sobreescribe el configurado (ej: override de un flow) */
+  model?: string;
+}
+
+export function createLLMProvider(options: LLMProviderOptions = {}): LLMProvider {
+  const configured = options.provider && options.provider !== 'auto' ? options.provider : undefined;
+  const provider = configured || process.env.LLM_PROVIDER?.toLowerCase() || 'auto';
+  
+  // Reproducción de respuestas grabadas (sin red)
+  if (provider === 'replay') {
+    return new ReplayProvider(options.fixtures?.dir);
+  }
+  
+  // Grabación: se envuelve el proveedor real (o la cadena) para guardar fixtures
+  if (provider === 'record') {
+    const recordWith = options.fixtures?.recordWith ?? 'auto';
+    return new RecordingProvider(createProviderChain(recordWith, options), options.fixtures?.dir);
+  }
+  
+  return createProviderChain(provider, options);
+}
+
+/** Alias de proveedores (para no repetir el mismo en la cadena de respaldo) */
+const PROVIDER_ALIASES: Record<string, string> = {
+  gemini: 'google',
+  gpt: 'openai',
+  claude: 'anthropic'
+};
+
+/**
+ * Crea el proveedor principal + los de respaldo, con reintentos y failover
+ * El override de modelo (flow o config.ai.model) es solo del principal: los de respaldo
+ * usan su providers[name].model o su modelo por defecto
+ */
+function createProviderChain(primary: string, options: LLMProviderOptions): LLMProvider {
+  const fallbackSettings = (name: LLMProviderName): ProviderSettings => ({ ...options.providers?.[name] });
+  const primarySettings = (name: LLMProviderName): ProviderSettings => ({
+    ...fallbackSettings(name),
+    ...(options.model ? { model: options.model } : {})
+  });
+  
+  const canonical = (name: string) => PROVIDER_ALIASES[name] || name;
+  const names = [primary, ...(options.fallbackProviders || [])]
+    .filter((name, index, all) => all.findIndex(other => canonical(other) === canonical(name)) === index);
+  
+  return new FallbackProvider(
+    names.map((name, index) => createBaseProvider(name, index === 0 ? primarySettings : fallbackSettings)),
+    options.requestRetry
+  );
+}
+
+/**
+ * Crea un proveedor concreto por nombre (o auto-detectado con 'auto')
+ */
+function createBaseProvider(provider: string, settingsFor: (name: LLMProviderName) => ProviderSettings): LLMProvider {
+  // Auto-detectar según qué API key esté configurada
+  if (provider === 'auto') {
+    return detectProvider(settingsFor);
   }
 
   // Selección manual del proveedor
   const providers: Record<string, () => LLMProvider> = {
-    'google': () => new GoogleAIProvider(process.env.GOOGLE_AI_API_KEY!),
-    'gemini': () => new GoogleAIProvider(process.env.GOOGLE_AI_API_KEY!),
-    'openai': () => new OpenAIProvider(process.env.OPENAI_API_KEY!),
-    'gpt': () => new OpenAIProvider(process.env.OPENAI_API_KEY!),
-    'anthropic': () => new AnthropicProvider(process.env.ANTHROPIC_API_KEY!),
-    'claude': () => new AnthropicProvider(process.env.ANTHROPIC_API_KEY!),
-    'deepseek': () => new DeepSeekProvider(process.env.DEEPSEEK_API_KEY!),
+    'google': () => new GoogleAIProvider(process.env.GOOGLE_AI_API_KEY!, settingsFor('google')),
+    'gemini': () => new GoogleAIProvider(process.env.GOOGLE_AI_API_KEY!, settingsFor('google')),
+    'openai': () => new OpenAIProvider(process.env.OPENAI_API_KEY!, settingsFor('openai')),
+    'gpt': () => new OpenAIProvider(process.env.OPENAI_API_KEY!, settingsFor('openai')),
+    'anthropic': () => new AnthropicProvider(process.env.ANTHROPIC_API_KEY!, settingsFor('anthropic')),
+    'claude': () => new AnthropicProvider(process.env.ANTHROPIC_API_KEY!, settingsFor('anthropic')),
+    'deepseek': () => new DeepSeekProvider(process.env.DEEPSEEK_API_KEY!, settingsFor('deepseek')),
     'azure': () => new AzureOpenAIProvider(
       process.env.AZURE_OPENAI_API_KEY!,
-      process.env.AZURE_OPENAI_ENDPOINT!
+      process.env.AZURE_OPENAI_ENDPOINT!,
+      settingsFor('azure')
     ),
-    'ollama': () => new OllamaProvider(process.env.OLLAMA_URL)
+    'ollama': () => new OllamaProvider(process.env.OLLAMA_URL, settingsFor('ollama'))
   };
 
   if (!providers[provider]) {
@@ -441,6 +814,52 @@ Configura una de estas en tu archivo .env:
   return providers[provider]();
 }
 
+/**
+ * Auto-detecta el proveedor según qué API key esté configurada en .env
+ */
+function detectProvider(settingsFor: (name: LLMProviderName) => ProviderSettings): LLMProvider {
+  if (process.env.GOOGLE_AI_API_KEY) {
+    console.log('🔍 Detectado: Google AI API Key');
+    return new GoogleAIProvider(process.env.GOOGLE_AI_API_KEY, settingsFor('google'));
+  }
+  if (process.env.OPENAI_API_KEY) {
+    console.log('🔍 Detectado: OpenAI API Key');
+    return new OpenAIProvider(process.env.OPENAI_API_KEY, settingsFor('openai'));
+  }
+  if (process.env.ANTHROPIC_API_KEY) {
+    console.log('🔍 Detectado: Anthropic API Key');
+    return new AnthropicProvider(process.env.ANTHROPIC_API_KEY, settingsFor('anthropic'));
+  }
+  if (process.env.DEEPSEEK_API_KEY) {
+    console.log('🔍 Detectado: DeepSeek API Key');
+    return new DeepSeekProvider(process.env.DEEPSEEK_API_KEY, settingsFor('deepseek'));
+  }
+  if (process.env.AZURE_OPENAI_API_KEY && process.env.AZURE_OPENAI_ENDPOINT) {
+    console.log('🔍 Detectado: Azure OpenAI API Key');
+    return new AzureOpenAIProvider(
+      process.env.AZURE_OPENAI_API_KEY,
+      process.env.AZURE_OPENAI_ENDPOINT,
+      settingsFor('azure')
+    );
+  }
+  if (process.env.OLLAMA_ENABLED === 'true') {
+    console.log('🔍 Detectado: Ollama (Local)');
+    return new OllamaProvider(process.env.OLLAMA_URL, settingsFor('ollama'));
+  }
+  
+  throw new Error(`
+❌ No se encontró ninguna API key configurada.
+
+Configura una de estas en tu archivo .env:
+  - GOOGLE_AI_API_KEY     (Google AI Studio - Gemini) [GRATIS]
+  - OPENAI_API_KEY        (OpenAI GPT-4)
+  - ANTHROPIC_API_KEY     (Anthropic Claude)
+  - DEEPSEEK_API_KEY      (DeepSeek)
+  - AZURE_OPENAI_API_KEY  (Azure OpenAI)
+  - OLLAMA_ENABLED=true   (Ollama local) [GRATIS]
+    `);
+}
+
 // Lista de proveedores soportados
 export const SUPPORTED_PROVIDERS = [
   { name: 'Google AI (Gemini)', envVar: 'GOOGLE_AI_API_KEY', provider: 'google', free: true },
@@ -0,0 +1,295 @@
+/**
+ * Contabilidad de tokens y costo de las llamadas al LLM
+ */
+
+/**
+ * Tokens consumidos por una llamada al LLM
+ */
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/**
+ * Precio de un modelo en USD por 1 millón de tokens
+ */
+export interface ModelPricing {
+  input: number;
+  output: number;
+}
+
+/**
+ * Resumen acumulado de uso (por paso, flow o ejecución completa)
+ */
+export interface UsageSummary {
+  /** Llamadas reales al LLM */
+  llmCalls: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  /** Costo estimado en USD */
+  cost: number;
+  /** Pasos resueltos desde el caché de selectores (0 tokens) */
+  cacheHits: number;
+  /** Tokens que habría costado consultar al LLM en los cache hits */
+  tokensSaved: number;
+  /** Costo ahorrado en USD por los cache hits */
+  costSaved: number;
+  /** Modelos usados */
+  models: string[];
+  /** Proveedores que respondieron (relevante con cadena de fallback) */
+  providers: string[];
+}
+
+/**
+ * Tabla de precios por defecto (USD por 1M tokens)
+ * Se busca por prefijo más largo: 'gpt-4o-2024-08-06' usa el precio de 'gpt-4o'
+ */
+export const DEFAULT_PRICING: Record<string, ModelPricing> = {
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'claude-3-opus': { input: 15, output: 75 },
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'deepseek-chat': { input: 0.27, output: 1.1 },
+};
+
+/**
+ * Crea un resumen de uso vacío
+ */
+export function emptyUsage(): UsageSummary {
+  return {
+    llmCalls: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    totalTokens: 0,
+    cost: 0,
+    cacheHits: 0,
+    tokensSaved: 0,
+    costSaved: 0,
+    models: [],
+    providers: []
+  };
+}
+
+/**
+ * Busca el precio de un modelo (exacto o por prefijo más largo)
+ * Modelos desconocidos (ej: Ollama local) cuestan 0
+ */
+export function findPricing(model: string, pricing: Record<string, ModelPricing> = DEFAULT_PRICING): ModelPricing | null {
+  if (pricing[model]) return pricing[model];
+
+  const prefix = Object.keys(pricing)
+    .filter(key => model.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return prefix ? pricing[prefix] : null;
+}
+
+/**
+ * Calcula el costo en USD de una llamada
+ */
+export function calculateCost(usage: TokenUsage, model: string, pricing?: Record<string, ModelPricing>): number {
+  const price = findPricing(model, pricing);
+  if (!price) return 0;
+  return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+}
+
+/**
+ * Suma varios resúmenes de uso en uno nuevo
+ */
+export function sumUsage(...summaries: (UsageSummary | undefined)[]): UsageSummary {
+  const total = emptyUsage();
+
+  for (const usage of summaries) {
+    if (!usage) continue;
+    total.llmCalls += usage.llmCalls;
+    total.inputTokens += usage.inputTokens;
+    total.outputTokens += usage.outputTokens;
+    total.totalTokens += usage.totalTokens;
+    total.cost += usage.cost;
+    total.cacheHits += usage.cacheHits;
+    total.tokensSaved += usage.tokensSaved;
+    total.costSaved += usage.costSaved;
+    for (const model of usage.models) {
+      if (!total.models.includes(model)) total.models.push(model);
+    }
+    for (const provider of usage.providers ?? []) {
+      if (!total.providers.includes(provider)) total.providers.push(provider);
+    }
+  }
+
+  return total;
+}
+
+/**
+ * Formatea un costo en USD para reportes (más decimales para montos pequeños)
+ */
+export function formatCost(cost: number): string {
+  return cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+}
+
+/**
+ * Acumula el uso de tokens de las llamadas al LLM y de los cache hits
+ */
+export class UsageTracker {
+  private usage: UsageSummary = emptyUsage();
+  private pricing: Record<string, ModelPricing>;
+
+  constructor(pricing: Record<string, ModelPricing> = {}) {
+    this.pricing = { ...DEFAULT_PRICING, ...pricing };
+  }
+
+  /**
+   * Agrega precios personalizados (sobreescriben los de DEFAULT_PRICING)
+   */
+  setPricing(pricing: Record<string, ModelPricing>): void {
+    this.pricing = { ...DEFAULT_PRICING, ...pricing };
+  }
+
+  /**
+   * Registra una llamada real al LLM
+   * @param provider Proveedor que respondió (opcional)
+   * @returns Costo en USD de la llamada
+   */
+  recordCall(usage: TokenUsage, model: string, provider?: string): number {
+    const cost = calculateCost(usage, model, this.pricing);
+    this.usage.llmCalls++;
+    this.usage.inputTokens += usage.inputTokens;
+    this.usage.outputTokens += usage.outputTokens;
+    this.usage.totalTokens += usage.inputTokens + usage.outputTokens;
+    this.usage.cost += cost;
+    if (!this.usage.models.includes(model)) this.usage.models.push(model);
+    if (provider && !this.usage.providers.includes(provider)) this.usage.providers.push(provider);
+    return cost;
+  }
+
+  /**
+   * Registra un cache hit y lo que habría costado la consulta original
+   */
+  recordCacheHit(saved?: TokenUsage & { model: string }): void {
+    this.usage.cacheHits++;
+    if (saved) {
+      this.usage.tokensSaved += saved.inputTokens + saved.outputTokens;
+      this.usage.costSaved += calculateCost(saved, saved.model, this.pricing);
+    }
+  }
+
+  /**
+   * Devuelve el uso acumulado y reinicia el contador
+   */
+  flush(): UsageSummary {
+    const usage = this.usage;
+    this.usage = emptyUsage();
+    return usage;
+  }
+}
+
+/**
+ * Límites de consumo para una ejecución
+ */
+export interface BudgetLimits {
+  /** Máximo de tokens (entrada + salida) en toda la ejecución */
+  maxTokensPerRun?: number;
+  /** Máximo de tokens por flow (incluye reintentos) */
+  maxTokensPerFlow?: number;
+  /** Costo máximo en USD de toda la ejecución */
+  maxCostPerRun?: number;
+}
+
+/**
+ * Presupuesto compartido por todos los flows (y workers paralelos) de una ejecución
+ */
+export class RunBudget {
+  private tokens = 0;
+  private cost = 0;
+  private exceededReason: string | null = null;
+
+  constructor(private limits: BudgetLimits = {}) {}
+
+  /**
+   * Indica si se superó algún límite de la ejecución
+   */
+  isExceeded(): boolean {
+    return this.exceededReason !== null;
+  }
+
+  /**
+   * Motivo por el que se agotó el presupuesto (null si no se agotó)
+   */
+  getExceededReason(): string | null {
+    return this.exceededReason;
+  }
+
+  /**
+   * Crea el presupuesto de un flow, que también descuenta del total de la ejecución
+   */
+  forFlow(flowName: string): FlowBudget {
+    return new FlowBudget(this, flowName, this.limits.maxTokensPerFlow);
+  }
+
+  /**
+   * Suma consumo al total de la ejecución y evalúa los límites
+   */
+  add(tokens: number, cost: number): void {
+    this.tokens += tokens;
+    this.cost += cost;
+
+    const { maxTokensPerRun, maxCostPerRun } = this.limits;
+    if (!this.exceededReason && maxTokensPerRun && this.tokens >= maxTokensPerRun) {
+      this.exceededReason = `maxTokensPerRun (${this.tokens}/${maxTokensPerRun} tokens)`;
+    }
+    if (!this.exceededReason && maxCostPerRun && this.cost >= maxCostPerRun) {
+      this.exceededReason = `maxCostPerRun (${formatCost(this.cost)}/${formatCost(maxCostPerRun)})`;
+    }
+  }
+}
+
+/**
+ * Presupuesto de un flow individual
+ */
+export class FlowBudget {
+  private tokens = 0;
+
+  constructor(
+    private run: RunBudget,
+    private flowName: string,
+    private maxTokens?: number
+  ) {}
+
+  /**
+   * Lanza un error si el presupuesto del flow o de la ejecución está agotado
+   * Llamar antes de cada consulta al LLM
+   */
+  check(): void {
+    const runReason = this.run.getExceededReason();
+    if (runReason) {
+      throw new Error(`💸 Presupuesto de IA agotado: ${runReason}. No se realizan más llamadas al LLM.`);
+    }
+    if (this.maxTokens && this.tokens >= this.maxTokens) {
+      throw new Error(`💸 Presupuesto de IA agotado: maxTokensPerFlow en "${this.flowName}" (${this.tokens}/${this.maxTokens} tokens). No se realizan más llamadas al LLM.`);
+    }
+  }
+
+  /**
+   * Indica si ya no quedan tokens para este flow (o para la ejecución)
+   */
+  isExhausted(): boolean {
+    return this.run.isExceeded() || (!!this.maxTokens && this.tokens >= this.maxTokens);
+  }
+
+  /**
+   * Registra el consumo de una llamada y falla si con ella se cruzó un límite
+   */
+  record(tokens: number, cost: number): void {
+    this.tokens += tokens;
+    this.run.add(tokens, cost);
+    this.check();
+  }
+}
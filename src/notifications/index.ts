@@ -0,0 +1,14 @@
+/**
+ * Notificaciones de fin de ejecución (Slack, Teams, webhook genérico, email)
+ */
+export {
+  SlackNotifier,
+  WebhookNotifier,
+  TeamsNotifier,
+  EmailNotifier,
+  buildSlackRunPayload,
+  createNotifiers,
+  sendRunNotifications,
+  shouldNotify
+} from './notifiers.js';
+export type { Notifier, RunNotification } from './notifiers.js';
@@ -0,0 +1,323 @@
+import nodemailer from 'nodemailer';
+import { NotificationsConfig, NotifyOn } from '../config/types.js';
+import { TestRunResult } from '../runner/types.js';
+
+/**
+ * Información de una ejecución completa que se envía a cada canal
+ */
+export interface RunNotification {
+  result: TestRunResult;
+  projectName: string;
+  /** URL pública o ruta local del reporte consolidado */
+  reportLink?: string;
+}
+
+/**
+ * Interfaz común para todos los canales de notificación
+ */
+export interface Notifier {
+  name: string;
+  notifyOn: NotifyOn;
+  send(notification: RunNotification): Promise<void>;
+}
+
+/**
+ * Indica si corresponde notificar según la política y el resultado
+ */
+export function shouldNotify(notifyOn: NotifyOn, result: TestRunResult): boolean {
+  if (notifyOn === 'never') return false;
+  if (notifyOn === 'on-failure') return result.failed > 0 || result.timedOut > 0;
+  return true;
+}
+
+/** Máximo de flows listados en un mensaje (Slack/Teams limitan el tamaño) */
+const MAX_LISTED_FLOWS = 20;
+
+/**
+ * Genera una línea de texto por flow: estado, nombre, duración y error
+ */
+function formatFlowLines(result: TestRunResult): string[] {
+  const lines = result.flows.slice(0, MAX_LISTED_FLOWS).map(flow => {
+    const icon = !flow.success ? (flow.timedOut ? '⏱️' : '❌') : flow.flaky ? '⚠️' : '✅';
+    const duration = `${(flow.duration / 1000).toFixed(1)}s`;
+    const error = !flow.success && flow.error ? ` - ${flow.error.substring(0, 150)}` : '';
+    return `${icon} ${flow.name} (${flow.completedSteps}/${flow.totalSteps} pasos, ${duration})${error}`;
+  });
+
+  if (result.flows.length > MAX_LISTED_FLOWS) {
+    lines.push(`… y ${result.flows.length - MAX_LISTED_FLOWS} flows más`);
+  }
+
+  return lines;
+}
+
+/**
+ * Envía un POST con cuerpo JSON y falla si la respuesta no es 2xx
+ */
+async function postJson(url: string, body: object, headers: Record<string, string> = {}): Promise<void> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body)
+  });
+
+  if (!response.ok) {
+    const text = await response.text().catch(() => '');
+    throw new Error(`HTTP ${response.status} ${response.statusText} ${text}`.trim());
+  }
+}
+
+// ============================================
+// SLACK
+// ============================================
+export class SlackNotifier implements Notifier {
+  name = 'Slack';
+
+  constructor(private webhookUrl: string, public notifyOn: NotifyOn) {}
+
+  async send(notification: RunNotification): Promise<void> {
+    await postJson(this.webhookUrl, buildSlackRunPayload(notification));
+  }
+}
+
+/**
+ * Genera el payload de Slack (blocks) para una ejecución completa
+ */
+export function buildSlackRunPayload({ result, projectName, reportLink }: RunNotification): object {
+  const success = result.failed === 0 && result.timedOut === 0;
+  const statusEmoji = success ? '✅' : '❌';
+  const statusText = success ? 'Exitoso' : 'Fallido';
+  const color = success ? '#22c55e' : '#ef4444';
+
+  return {
+    attachments: [
+      {
+        color,
+        blocks: [
+          {
+            type: 'header',
+            text: {
+              type: 'plain_text',
+              text: `${statusEmoji} AI Test Runner - ${statusText}`,
+              emoji: true
+            }
+          },
+          {
+            type: 'section',
+            fields: [
+              { type: 'mrkdwn', text: `*Proyecto:*\n${projectName}` },
+              { type: 'mrkdwn', text: `*Flows:*\n${result.passed}/${result.totalFlows} pasados` },
+              { type: 'mrkdwn', text: `*Fallidos:*\n${result.failed}${result.timedOut ? ` (+${result.timedOut} timeout)` : ''}` },
+              { type: 'mrkdwn', text: `*Flaky:*\n${result.flaky}` },
+              { type: 'mrkdwn', text: `*Duración:*\n${(result.duration / 1000).toFixed(1)}s` },
+              { type: 'mrkdwn', text: `*Fecha:*\n${new Date().toLocaleString('es-ES')}` }
+            ]
+          },
+          {
+            type: 'section',
+            text: {
+              type: 'mrkdwn',
+              text: formatFlowLines(result).join('\n').substring(0, 2900)
+            }
+          },
+          ...(reportLink ? [{
+            type: reportLink.startsWith('http') ? 'actions' : 'context',
+            elements: reportLink.startsWith('http')
+              ? [{
+                  type: 'button',
+                  text: { type: 'plain_text', text: '📊 Ver Reporte', emoji: true },
+                  url: reportLink
+                }]
+              : [{ type: 'mrkdwn', text: `📄 Reporte: \`${reportLink}\`` }]
+          }] : [])
+        ]
+      }
+    ]
+  };
+}
+
+// ============================================
+// WEBHOOK GENÉRICO
+// ============================================
+export class WebhookNotifier implements Notifier {
+  name = 'Webhook';
+
+  constructor(
+    private url: string,
+    public notifyOn: NotifyOn,
+    private headers: Record<string, string> = {}
+  ) {}
+
+  async send({ result, projectName, reportLink }: RunNotification): Promise<void> {
+    await postJson(this.url, {
+      event: 'run.finished',
+      projectName,
+      status: result.failed === 0 && result.timedOut === 0 ? 'passed' : 'failed',
+      timestamp: new Date().toISOString(),
+      summary: {
+        total: result.totalFlows,
+        passed: result.passed,
+        failed: result.failed,
+        timedOut: result.timedOut,
+        flaky: result.flaky,
+        duration: result.duration
+      },
+      flows: result.flows.map(f => ({
+        name: f.name,
+        tags: f.tags,
+        success: f.success,
+        timedOut: f.timedOut || false,
+        flaky: f.flaky || false,
+        completedSteps: f.completedSteps,
+        totalSteps: f.totalSteps,
+        duration: f.duration,
+        error: f.error || null
+      })),
+      reportLink: reportLink || null
+    }, this.headers);
+  }
+}
+
+// ============================================
+// MICROSOFT TEAMS
+// ============================================
+export class TeamsNotifier implements Notifier {
+  name = 'Microsoft Teams';
+
+  constructor(private webhookUrl: string, public notifyOn: NotifyOn) {}
+
+  async send({ result, projectName, reportLink }: RunNotification): Promise<void> {
+    const success = result.failed === 0 && result.timedOut === 0;
+
+    // Adaptive Card: formato aceptado por Incoming Webhooks y Workflows de Teams
+    await postJson(this.webhookUrl, {
+      type: 'message',
+      attachments: [{
+        contentType: 'application/vnd.microsoft.card.adaptive',
+        content: {
+          $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+          type: 'AdaptiveCard',
+          version: '1.4',
+          body: [
+            {
+              type: 'TextBlock',
+              size: 'Large',
+              weight: 'Bolder',
+              color: success ? 'Good' : 'Attention',
+              text: `${success ? '✅' : '❌'} AI Test Runner - ${success ? 'Exitoso' : 'Fallido'}`
+            },
+            {
+              type: 'FactSet',
+              facts: [
+                { title: 'Proyecto', value: projectName },
+                { title: 'Flows', value: `${result.passed}/${result.totalFlows} pasados` },
+                { title: 'Fallidos', value: `${result.failed}` },
+                { title: 'Timeout', value: `${result.timedOut}` },
+                { title: 'Flaky', value: `${result.flaky}` },
+                { title: 'Duración', value: `${(result.duration / 1000).toFixed(1)}s` }
+              ]
+            },
+            ...formatFlowLines(result).map(line => ({ type: 'TextBlock', text: line, wrap: true, spacing: 'Small' })),
+            ...(reportLink && !reportLink.startsWith('http')
+              ? [{ type: 'TextBlock', text: `📄 Reporte: ${reportLink}`, wrap: true, isSubtle: true }]
+              : [])
+          ],
+          actions: reportLink && reportLink.startsWith('http')
+            ? [{ type: 'Action.OpenUrl', title: '📊 Ver Reporte', url: reportLink }]
+            : []
+        }
+      }]
+    });
+  }
+}
+
+// ============================================
+// EMAIL (SMTP)
+// ============================================
+export class EmailNotifier implements Notifier {
+  name = 'Email';
+
+  constructor(
+    private options: NonNullable<NotificationsConfig['email']>,
+    public notifyOn: NotifyOn
+  ) {}
+
+  async send({ result, projectName, reportLink }: RunNotification): Promise<void> {
+    const { smtp, from, to } = this.options;
+    const transport = nodemailer.createTransport({
+      host: smtp.host,
+      port: smtp.port,
+      secure: smtp.secure,
+      auth: smtp.user ? { user: smtp.user, pass: smtp.pass } : undefined
+    });
+
+    const success = result.failed === 0 && result.timedOut === 0;
+    const subject = `[${projectName}] ${success ? '✅ Exitoso' : '❌ Fallido'} - ${result.passed}/${result.totalFlows} flows pasados`;
+    const lines = formatFlowLines(result);
+    const summary = `Fallidos: ${result.failed} | Timeout: ${result.timedOut} | Flaky: ${result.flaky} | Duración: ${(result.duration / 1000).toFixed(1)}s`;
+    const escapeHtml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+    await transport.sendMail({
+      from,
+      to: to.join(', '),
+      subject,
+      text: [subject, summary, '', ...lines, '', reportLink ? `Reporte: ${reportLink}` : ''].join('\n'),
+      html: `
+        <h2>${escapeHtml(subject)}</h2>
+        <p>${escapeHtml(summary)}</p>
+        <ul>${lines.map(l => `<li>${escapeHtml(l)}</li>`).join('')}</ul>
+        ${reportLink ? `<p>📄 Reporte: <a href="${escapeHtml(reportLink)}">${escapeHtml(reportLink)}</a></p>` : ''}
+      `
+    });
+  }
+}
+
+// ============================================
+// FACTORY: Crear notificadores habilitados
+// ============================================
+export function createNotifiers(config: NotificationsConfig): Notifier[] {
+  const notifiers: Notifier[] = [];
+
+  if (config.slack.enabled && config.slack.webhookUrl) {
+    notifiers.push(new SlackNotifier(config.slack.webhookUrl, config.slack.notifyOn));
+  }
+  if (config.webhook?.enabled && config.webhook.url) {
+    notifiers.push(new WebhookNotifier(config.webhook.url, config.webhook.notifyOn, config.webhook.headers));
+  }
+  if (config.teams?.enabled && config.teams.webhookUrl) {
+    notifiers.push(new TeamsNotifier(config.teams.webhookUrl, config.teams.notifyOn));
+  }
+  if (config.email?.enabled && config.email.to.length > 0) {
+    notifiers.push(new EmailNotifier(config.email, config.email.notifyOn));
+  }
+
+  return notifiers;
+}
+
+/**
+ * Envía la notificación de fin de ejecución a todos los canales habilitados
+ * Los errores de envío se registran pero nunca hacen fallar la ejecución
+ */
+export async function sendRunNotifications(
+  config: NotificationsConfig,
+  result: TestRunResult,
+  reportPath?: string,
+  notifiers: Notifier[] = createNotifiers(config)
+): Promise<void> {
+  const notification: RunNotification = {
+    result,
+    projectName: config.slack.projectName || 'AI Test Runner',
+    reportLink: config.reportUrl || reportPath
+  };
+
+  for (const notifier of notifiers) {
+    if (!shouldNotify(notifier.notifyOn, result)) continue;
+
+    try {
+      await notifier.send(notification);
+      console.log(`🔔 Notificación enviada: ${notifier.name}`);
+    } catch (error) {
+      console.warn(`⚠️  Error enviando notificación (${notifier.name}): ${(error as Error).message}`);
+    }
+  }
+}
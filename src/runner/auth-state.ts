@@ -0,0 +1,124 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { FlowExecutionResult, LoadedFlow } from './types.js';
+
+/** Directorio por defecto de los storageState */
+export const DEFAULT_AUTH_DIR = './.auth';
+
+/** Antigüedad máxima por defecto de un storageState (30 minutos) */
+export const DEFAULT_AUTH_MAX_AGE = 30 * 60 * 1000;
+
+/**
+ * Administra las sesiones (storageState de Playwright) que guardan los flows de setup
+ *
+ * - Un flow con `setup: 'admin'` guarda su sesión en `<authDir>/admin.json`
+ * - Un flow con `auth: 'admin'` crea su contexto desde ese archivo
+ * - Si el archivo no existe o está vencido se re-ejecuta el setup una sola vez,
+ *   aunque lo pidan varios workers en paralelo
+ */
+export class AuthStateManager {
+  private setupFlows = new Map<string, LoadedFlow>();
+  private pending = new Map<string, Promise<string>>();
+  /** Setups fallidos en esta ejecución (no se reintentan por cada flow que los usa) */
+  private failures = new Map<string, Error>();
+  private results: FlowExecutionResult[] = [];
+
+  constructor(
+    setupFlows: LoadedFlow[],
+    private runSetup: (flow: LoadedFlow) => Promise<FlowExecutionResult>,
+    private authDir: string = DEFAULT_AUTH_DIR,
+    private maxAge: number = DEFAULT_AUTH_MAX_AGE
+  ) {
+    for (const flow of setupFlows) {
+      const name = flow.definition.setup!;
+      if (this.setupFlows.has(name)) {
+        console.warn(`⚠️  Hay más de un flow de setup para auth '${name}', se usa "${this.setupFlows.get(name)!.definition.name}"`);
+        continue;
+      }
+      this.setupFlows.set(name, flow);
+    }
+  }
+
+  /**
+   * Ruta del storageState de una sesión
+   */
+  getPath(name: string): string {
+    return path.join(this.authDir, `${name}.json`);
+  }
+
+  /**
+   * Indica si la sesión existe y no superó la antigüedad máxima
+   */
+  isFresh(name: string): boolean {
+    const filePath = this.getPath(name);
+    if (!fs.existsSync(filePath)) return false;
+    return Date.now() - fs.statSync(filePath).mtimeMs < this.maxAge;
+  }
+
+  /**
+   * Devuelve la ruta de una sesión vigente, ejecutando su flow de setup si hace falta
+   * Las llamadas concurrentes para la misma sesión esperan al mismo setup
+   */
+  async getStatePath(name: string): Promise<string> {
+    const pending = this.pending.get(name);
+    if (pending) return pending;
+
+    const failure = this.failures.get(name);
+    if (failure) throw failure;
+
+    if (this.isFresh(name)) return this.getPath(name);
+
+    console.log(`🔐 Sesión '${name}' ${fs.existsSync(this.getPath(name)) ? 'vencida' : 'inexistente'}, ejecutando su flow de setup...`);
+    return this.refresh(name);
+  }
+
+  /**
+   * Ejecuta el flow de setup de una sesión (aunque esté vigente)
+   */
+  async refresh(name: string): Promise<string> {
+    const pending = this.pending.get(name);
+    if (pending) return pending;
+
+    const promise = this.runSetupFlow(name)
+      .catch(error => {
+        this.failures.set(name, error);
+        throw error;
+      })
+      .finally(() => this.pending.delete(name));
+    this.pending.set(name, promise);
+    return promise;
+  }
+
+  /**
+   * Devuelve los resultados de los flows de setup ejecutados desde la última llamada
+   */
+  takeResults(): FlowExecutionResult[] {
+    const results = this.results;
+    this.results = [];
+    return results;
+  }
+
+  private async runSetupFlow(name: string): Promise<string> {
+    const flow = this.setupFlows.get(name);
+    if (!flow) {
+      throw new Error(`🔐 No hay un flow de setup para auth '${name}' (defineFlow({ setup: '${name}', ... }))`);
+    }
+    if (flow.definition.auth) {
+      throw new Error(`🔐 El flow de setup "${flow.definition.name}" no puede usar auth`);
+    }
+
+    fs.mkdirSync(this.authDir, { recursive: true });
+    const result = await this.runSetup(flow);
+    this.results.push(result);
+
+    if (!result.success) {
+      throw new Error(`🔐 Falló el flow de setup "${flow.definition.name}" (auth '${name}'): ${result.error || 'pasos fallidos'}`);
+    }
+    if (!fs.existsSync(this.getPath(name))) {
+      throw new Error(`🔐 El flow de setup "${flow.definition.name}" no guardó la sesión '${name}'`);
+    }
+
+    console.log(`🔐 Sesión '${name}' guardada en: ${this.getPath(name)}`);
+    return this.getPath(name);
+  }
+}
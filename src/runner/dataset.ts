@@ -0,0 +1,98 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Fila de un dataset: columna -> valor (se agregan a las variables del flow)
+ */
+export type DatasetRow = Record<string, string>;
+
+/**
+ * Carga las filas de un dataset
+ * @param source Ruta a un .csv/.json (relativa al directorio del proyecto) o array inline
+ */
+export function loadDataset(source: string | Record<string, unknown>[]): DatasetRow[] {
+  if (Array.isArray(source)) {
+    return source.map(toRow);
+  }
+
+  const filePath = path.resolve(source);
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`No existe el dataset: ${source}`);
+  }
+  const content = fs.readFileSync(filePath, 'utf-8');
+
+  switch (path.extname(filePath).toLowerCase()) {
+    case '.csv':
+      return parseCsv(content);
+    case '.json': {
+      const data = JSON.parse(content);
+      if (!Array.isArray(data)) {
+        throw new Error(`El dataset ${source} debe ser un array de objetos`);
+      }
+      return data.map(toRow);
+    }
+    default:
+      throw new Error(`Formato de dataset no soportado: ${source} (usar .csv o .json)`);
+  }
+}
+
+/**
+ * Parsea un CSV con encabezado (separador ',' o ';', campos entre comillas con "" escapadas)
+ */
+export function parseCsv(content: string): DatasetRow[] {
+  const text = content.replace(/^\uFEFF/, '');
+  const firstLine = text.split(/\r?\n/, 1)[0];
+  // Excel en español exporta con ';'
+  const delimiter = (firstLine.match(/;/g) || []).length > (firstLine.match(/,/g) || []).length ? ';' : ',';
+
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const [header, ...rows] = records.filter(r => r.some(value => value.trim() !== ''));
+  if (!header) return [];
+
+  const columns = header.map(column => column.trim());
+  return rows.map(values =>
+    Object.fromEntries(columns.map((column, i) => [column, (values[i] ?? '').trim()]))
+  );
+}
+
+function toRow(item: Record<string, unknown>): DatasetRow {
+  return Object.fromEntries(
+    Object.entries(item).map(([key, value]) => [key, value === null || value === undefined ? '' : String(value)])
+  );
+}
@@ -1,4 +1,4 @@
-import { FlowDefinition } from './types.js';
+import { FlowDefinition, FlowInclude, FlowStepEntry, StepGroup } from './types.js';
 
 /**
  * Helper para definir un flow con tipado completo
@@ -11,16 +11,17 @@ import { FlowDefinition } from './types.js';
  *   name: 'Login al sistema',
  *   tags: ['smoke', 'login'],
  *   steps: [
+ *     { do: 'Cerrar el banner de cookies', optional: true, timeout: 5000 },
  *     'Ingresar email ${TEST_EMAIL}',
- *     'Click en Ingresar'
+ *     { do: 'Click en Ingresar', retries: 1, expect: 'se muestra el dashboard' }
  *   ]
  * });
  * ```
  */
 export function defineFlow(definition: FlowDefinition): FlowDefinition {
   // Aplicar defaults
+  // timeout no tiene default acá: si no se define se usa execution.flowTimeout
   return {
-    timeout: 60000,
     delayBetweenSteps: 2000,
     analysisMode: 'html',
     tags: [],
@@ -50,3 +51,40 @@ export function defineFlow(definition: FlowDefinition): FlowDefinition {
 export function defineFlows(definitions: FlowDefinition[]): FlowDefinition[] {
   return definitions.map(defineFlow);
 }
+
+/**
+ * Define un grupo de pasos reutilizable (no se ejecuta solo, se incluye con use())
+ * 
+ * @example
+ * ```typescript
+ * export const login = defineSteps('Login', [
+ *   'Llenar campo email con ${EMAIL}, campo contraseña con ${PASSWORD}, y hacer click en botón Ingresar'
+ * ], { EMAIL: '${TEST_EMAIL}', PASSWORD: '${TEST_PASSWORD}' });
+ * ```
+ */
+export function defineSteps(name: string, steps: FlowStepEntry[], variables?: Record<string, string>): StepGroup {
+  return { name, steps, variables };
+}
+
+/**
+ * Incluye los pasos de otro flow o grupo (los expande FlowLoader al cargar)
+ * 
+ * @example
+ * ```typescript
+ * import loginFlow from './login.flow.js';
+ * 
+ * export default defineFlow({
+ *   name: 'Mi flota',
+ *   steps: [
+ *     use(loginFlow, { TEST_EMAIL: 'admin@test.com' }),
+ *     'Click en Mi flota'
+ *   ]
+ * });
+ * ```
+ * 
+ * @param source Flow (defineFlow) o grupo (defineSteps) a incluir
+ * @param params Valores para las variables ${VAR} de los pasos incluidos
+ */
+export function use(source: StepGroup, params?: Record<string, string>): FlowInclude {
+  return { use: source, params };
+}
@@ -1,7 +1,9 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { pathToFileURL } from 'url';
-import { FlowDefinition, LoadedFlow, RunnerOptions } from './types.js';
+import { FlowDefinition, FlowInclude, FlowStepEntry, LoadedFlow, RunnerOptions, StepGroup } from './types.js';
+import { FlowStep, toFlowStep } from '../ai-agent.js';
+import { loadDataset } from './dataset.js';
 
 /**
  * Carga flows de test desde archivos .flow.ts
@@ -18,14 +20,10 @@ export class FlowLoader {
     for (const filePath of files) {
       try {
         const loaded = await this.loadFlowFile(filePath);
-        if (Array.isArray(loaded)) {
-          // Archivo con múltiples flows (defineFlows)
-          for (const def of loaded) {
-            flows.push({ filePath, definition: def });
-          }
-        } else {
-          // Archivo con un solo flow (defineFlow)
-          flows.push({ filePath, definition: loaded });
+        // Archivo con múltiples flows (defineFlows) o con uno solo (defineFlow)
+        const definitions = Array.isArray(loaded) ? loaded : [loaded];
+        for (const def of definitions.flatMap(d => this.expandDataset(d))) {
+          flows.push({ filePath, definition: def, steps: this.expandSteps(def) });
         }
       } catch (error) {
         console.error(`❌ Error cargando ${filePath}:`, (error as Error).message);
@@ -45,6 +43,111 @@ export class FlowLoader {
     return module.default;
   }
   
+  /**
+   * Expande un flow con dataset en un flow por fila
+   * El nombre se genera con las variables de la fila; si no las usa (o se repite) se agrega el número de fila
+   */
+  expandDataset(definition: FlowDefinition): FlowDefinition[] {
+    if (!definition.dataset) return [definition];
+    
+    const rows = loadDataset(definition.dataset);
+    if (rows.length === 0) {
+      console.warn(`⚠️  Dataset vacío en "${definition.name}"`);
+    }
+    
+    const names = new Set<string>();
+    return rows.map((row, i) => {
+      let name = this.substitute(definition.name, row);
+      if (name === definition.name || names.has(name)) {
+        name = `${name} [fila ${i + 1}]`;
+      }
+      names.add(name);
+      
+      return {
+        ...definition,
+        name,
+        variables: { ...definition.variables, ...row },
+        dataset: undefined,
+        datasetRow: { index: i + 1, values: row }
+      };
+    });
+  }
+  
+  /**
+   * Expande las inclusiones use() de un flow en una lista plana de pasos
+   * Los pasos incluidos conservan sus ${VAR}: los parámetros del include (y las variables del
+   * grupo como defaults) viajan en step.variables y se resuelven al ejecutar el flow, así la
+   * clave del caché es la misma para cualquier valor de los parámetros
+   */
+  expandSteps(definition: FlowDefinition): FlowStep[] {
+    return this.expandGroup(definition.steps, {}, [], [definition]);
+  }
+  
+  /**
+   * Expande recursivamente una lista de pasos
+   * @param variables Parámetros del grupo actual
+   * @param group Nombres de los grupos incluidos hasta este punto (para reportes)
+   * @param stack Grupos en expansión (para detectar ciclos)
+   */
+  private expandGroup(
+    entries: FlowStepEntry[],
+    variables: Record<string, string>,
+    group: string[],
+    stack: StepGroup[]
+  ): FlowStep[] {
+    const steps: FlowStep[] = [];
+    
+    for (const entry of entries) {
+      if (!this.isInclude(entry)) {
+        const step = toFlowStep(entry);
+        const stepVariables = { ...variables, ...step.variables };
+        steps.push({
+          ...step,
+          group: group.length > 0 ? group : undefined,
+          variables: Object.keys(stepVariables).length > 0 ? stepVariables : undefined
+        });
+        continue;
+      }
+      
+      const source = entry.use;
+      if (!source) {
+        throw new Error(`use() recibió un flow indefinido en "${stack[stack.length - 1].name}" (¿import circular entre archivos de flows?)`);
+      }
+      if (stack.includes(source)) {
+        const cycle = [...stack.slice(stack.indexOf(source)), source].map(g => g.name).join(' → ');
+        throw new Error(`🔁 Inclusión cíclica de flows: ${cycle}`);
+      }
+      
+      // Los parámetros pueden referenciar variables del grupo que incluye
+      const params = Object.fromEntries(
+        Object.entries(entry.params || {}).map(([key, value]) => [key, this.substitute(value, variables)])
+      );
+      steps.push(...this.expandGroup(
+        source.steps,
+        { ...source.variables, ...params },
+        [...group, source.name],
+        [...stack, source]
+      ));
+    }
+    
+    return steps;
+  }
+  
+  private isInclude(entry: FlowStepEntry): entry is FlowInclude {
+    return typeof entry === 'object' && 'use' in entry;
+  }
+  
+  /**
+   * Sustituye solo las variables conocidas; las demás quedan como ${VAR}
+   */
+  private substitute(text: string, variables: Record<string, string>): string {
+    return text.replace(/\$\{([^}]+)\}/g, (match, expression) => {
+      // ${VAR:-fallback}: el default solo aplica si la variable no llega por ningún lado
+      const name = expression.split(':-')[0];
+      return variables[name] ?? match;
+    });
+  }
+  
   /**
    * Busca archivos .flow.ts en un directorio (recursivo)
    * Nota: Busca los archivos compilados .flow.js en el directorio dist
@@ -1,9 +1,14 @@
 import { PlaywrightAIAgent } from '../core/agent.js';
 import { FlowLoader } from './flow-loader.js';
-import { VariableResolver } from './variable-resolver.js';
+import { VariableResolver, isSecretVariable, SECRET_MASK } from './variable-resolver.js';
 import { AITestConfig, defaultConfig } from '../config/types.js';
+import { getAgentOptions } from '../config/index.js';
 import { runInPool, PoolTask } from '../utils/parallel-pool.js';
 import { PrefixLogger } from '../utils/logger.js';
+import { createDeadline, raceWithSignal, isTimeoutError } from '../utils/deadline.js';
+import { sendRunNotifications } from '../notifications/index.js';
+import { sumUsage, formatCost, RunBudget, FlowBudget } from '../llm-usage.js';
+import { AuthStateManager } from './auth-state.js';
 import * as fs from 'fs';
 import * as path from 'path';
 import { 
@@ -12,9 +17,13 @@ import {
   FlowExecutionResult,
   StepExecutionResult,
   TestRunResult,
-  LoadedFlow
+  LoadedFlow,
+  FlowAttempt
 } from './types.js';
 
+/** Margen para que el agente cierre el paso en curso tras vencer el timeout del flow */
+const TIMEOUT_GRACE_MS = 5000;
+
 /**
  * Ejecutor principal de flows de test
  */
@@ -23,6 +32,8 @@ export class FlowRunner {
   private agent: PlaywrightAIAgent | null = null;
   private options: RunnerOptions;
   private config: AITestConfig;
+  private budget: RunBudget = new RunBudget();
+  private authStates: AuthStateManager = new AuthStateManager([], flow => this.runSetupFlow(flow));
   
   constructor(options: RunnerOptions = {}) {
     this.loader = new FlowLoader();
@@ -54,6 +65,10 @@ export class FlowRunner {
     
     console.log('\n🚀 Iniciando AI Test Runner...\n');
     
+    // Presupuesto de tokens/costo compartido por todos los flows de esta ejecución
+    const { maxTokensPerRun, maxTokensPerFlow, maxCostPerRun } = this.config.ai;
+    this.budget = new RunBudget({ maxTokensPerRun, maxTokensPerFlow, maxCostPerRun });
+    
     // Cargar flows
     const allFlows = await this.loader.loadFromDirectory(this.options.testDir!);
     console.log(`📁 Flows encontrados: ${allFlows.length}`);
@@ -68,6 +83,8 @@ export class FlowRunner {
         totalFlows: 0,
         passed: 0,
         failed: 0,
+        timedOut: 0,
+        flaky: 0,
         skipped: allFlows.length,
         duration: 0,
         flows: []
@@ -78,83 +95,325 @@ export class FlowRunner {
     console.log('\n📋 Flows a ejecutar:');
     flowsToRun.forEach((flow, i) => {
       const tags = flow.definition.tags?.join(', ') || 'sin tags';
-      console.log(`   ${i + 1}. ${flow.definition.name} [${tags}]`);
+      const auth = flow.definition.setup ? ` 🔐 setup '${flow.definition.setup}'` : flow.definition.auth ? ` 🔐 auth '${flow.definition.auth}'` : '';
+      console.log(`   ${i + 1}. ${flow.definition.name} [${tags}]${auth}`);
     });
     console.log('');
     
+    // Sesiones compartidas: los flows de setup se buscan entre todos los flows (no solo los filtrados)
+    this.authStates = new AuthStateManager(
+      allFlows.filter(f => f.definition.setup),
+      flow => this.runSetupFlow(flow),
+      this.config.execution.authDir,
+      this.config.execution.authMaxAge
+    );
+    const mainFlows = flowsToRun.filter(f => !f.definition.setup);
+    
+    // Los flows de setup se ejecutan antes que el resto
+    await this.runSetupFlows(flowsToRun, mainFlows);
+    results.push(...this.authStates.takeResults());
+    
+    const mainResults: FlowExecutionResult[] = [];
+    
     // Decidir si ejecutar en paralelo o secuencial
-    if (this.config.execution.parallel && flowsToRun.length > 1) {
-      const parallelResults = await this.runParallel(flowsToRun);
-      results.push(...parallelResults);
+    if (this.config.execution.parallel && mainFlows.length > 1) {
+      const parallelResults = await this.runParallel(mainFlows);
+      mainResults.push(...parallelResults);
     } else {
       // Ejecución secuencial (comportamiento original)
-      for (let i = 0; i < flowsToRun.length; i++) {
-        const flow = flowsToRun[i];
+      for (let i = 0; i < mainFlows.length; i++) {
+        const flow = mainFlows[i];
+        
+        // Presupuesto agotado: no se inician más flows
+        if (this.budget.isExceeded()) {
+          console.log(`\n💸 Presupuesto de IA agotado (${this.budget.getExceededReason()}). Se omiten ${mainFlows.length - i} flows.\n`);
+          break;
+        }
+        
         console.log(`\n${'='.repeat(60)}`);
-        console.log(`🧪 [${i + 1}/${flowsToRun.length}] ${flow.definition.name}`);
+        console.log(`🧪 [${i + 1}/${mainFlows.length}] ${flow.definition.name}`);
         console.log(`${'='.repeat(60)}\n`);
         
-        // Crear nuevo agente para cada flow (aislamiento completo)
-        this.agent = new PlaywrightAIAgent();
+        const result = await this.runWithRetries(flow, async (_attempt, budget) => {
+          // Crear nuevo agente para cada intento (aislamiento completo)
+          this.agent = this.createAgent();
+          return this.runWithAgent(flow, this.agent, budget, signal => this.runFlow(flow, signal));
+        });
+        mainResults.push(result);
         
-        try {
-          await this.agent.initialize({ 
-            headless: this.options.headless,
-            slowMo: this.options.slowMo
-          });
-          const result = await this.runFlow(flow);
-          results.push(result);
-          
-          // Fail fast
-          if (!result.success && this.options.failFast) {
-            console.log('\n⛔ Fail fast activado. Deteniendo ejecución.\n');
-            await this.agent.close();
-            break;
-          }
-        } catch (error) {
-          results.push({
-            name: flow.definition.name,
-            tags: flow.definition.tags || [],
-            success: false,
-            totalSteps: flow.definition.steps.length,
-            completedSteps: 0,
-            duration: 0,
-            error: (error as Error).message,
-            steps: []
-          });
-        } finally {
-          await this.agent.close();
+        // Fail fast
+        if (!result.success && this.options.failFast) {
+          console.log('\n⛔ Fail fast activado. Deteniendo ejecución.\n');
+          break;
         }
       }
     }
     
+    // Incluye los setups re-ejecutados durante la corrida (sesión vencida)
+    results.push(...this.authStates.takeResults(), ...mainResults);
+    
     const duration = Date.now() - startTime;
     
     // Calcular estadísticas (solo de los tests ejecutados)
     const passed = results.filter(r => r.success).length;
-    const failed = results.filter(r => !r.success).length;
+    const timedOut = results.filter(r => !r.success && r.timedOut).length;
+    const failed = results.filter(r => !r.success && !r.timedOut).length;
+    const flaky = results.filter(r => r.flaky).length;
     const filtered = allFlows.length - flowsToRun.length;
+    // Flows que no llegaron a iniciarse (fail fast o presupuesto agotado)
+    const skipped = mainFlows.length - mainResults.length;
     
     const testResult: TestRunResult = {
-      totalFlows: flowsToRun.length,
+      totalFlows: results.length + skipped,
       passed,
       failed,
-      skipped: 0,
+      timedOut,
+      flaky,
+      skipped,
       duration,
-      flows: results
+      flows: results,
+      usage: sumUsage(...results.map(r => r.usage))
     };
     
     // Mostrar resumen
     this.printSummary(testResult, filtered);
     
     // Generar reporte consolidado (un solo archivo con todos los flows)
+    let reportPath: string | undefined;
     if (this.options.generateReport) {
-      await this.generateConsolidatedReport(testResult, startTime);
+      reportPath = await this.generateConsolidatedReport(testResult, startTime);
     }
     
+    // Notificar el resultado de la ejecución (Slack, Teams, webhook, email)
+    await sendRunNotifications(this.config.notifications, testResult, reportPath && path.resolve(reportPath));
+    
     return testResult;
   }
   
+  /**
+   * Ejecuta un flow reintentándolo (con un agente nuevo) hasta `retries` veces si falla
+   * @param executeAttempt Ejecuta un intento completo y devuelve su resultado
+   */
+  private async runWithRetries(
+    flow: LoadedFlow,
+    executeAttempt: (attempt: number, budget: FlowBudget) => Promise<FlowExecutionResult>
+  ): Promise<FlowExecutionResult> {
+    const maxAttempts = Math.max(0, this.options.retries ?? 0) + 1;
+    // El presupuesto del flow es compartido por todos sus intentos
+    const budget = this.budget.forFlow(flow.definition.name);
+    const attempts: FlowAttempt[] = [];
+    let result: FlowExecutionResult | null = null;
+    
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      if (attempt > 1) {
+        console.log(`\n🔁 Reintento ${attempt - 1}/${maxAttempts - 1}: ${flow.definition.name}`);
+      }
+      
+      result = await executeAttempt(attempt, budget);
+      attempts.push({
+        attempt,
+        success: result.success,
+        completedSteps: result.completedSteps,
+        duration: result.duration,
+        error: result.error,
+        steps: result.steps,
+        video: result.video,
+        usage: result.usage,
+        timedOut: result.timedOut
+      });
+      
+      if (result.success) break;
+      
+      // Sin presupuesto, un reintento fallaría en la primera llamada al LLM
+      if (budget.isExhausted()) {
+        if (attempt < maxAttempts) {
+          console.log(`\n💸 Presupuesto de IA agotado: no se reintenta ${flow.definition.name}`);
+        }
+        break;
+      }
+    }
+    
+    const flaky = result!.success && attempts.length > 1;
+    if (flaky) {
+      console.log(`\n⚠️  ${flow.definition.name} - FLAKY (pasó en el intento ${attempts.length})`);
+    }
+    
+    return {
+      ...result!,
+      // La duración y el consumo totales incluyen todos los intentos
+      duration: attempts.reduce((sum, a) => sum + a.duration, 0),
+      usage: sumUsage(...attempts.map(a => a.usage)),
+      attempts,
+      flaky,
+      datasetRow: this.maskDatasetRow(flow.definition.datasetRow)
+    };
+  }
+  
+  /**
+   * Oculta las columnas secretas de la fila del dataset (se muestra en los reportes)
+   */
+  private maskDatasetRow(row: FlowDefinition['datasetRow']): FlowDefinition['datasetRow'] {
+    if (!row) return row;
+    const values = Object.fromEntries(
+      Object.entries(row.values).map(([key, value]) => [key, isSecretVariable(key, this.config.secretVariables) ? SECRET_MASK : value])
+    );
+    return { ...row, values };
+  }
+  
+  /**
+   * Inicializa el agente, ejecuta el flow y cierra el agente
+   * Aplica el timeout del flow y adjunta el video grabado (si existe) al resultado
+   */
+  private async runWithAgent(
+    flow: LoadedFlow,
+    agent: PlaywrightAIAgent,
+    budget: FlowBudget,
+    execute: (signal: AbortSignal) => Promise<FlowExecutionResult>
+  ): Promise<FlowExecutionResult> {
+    let result: FlowExecutionResult;
+    
+    // La sesión se resuelve antes del deadline: puede esperar al flow de setup
+    let storageState: string | undefined;
+    if (flow.definition.auth) {
+      try {
+        storageState = await this.authStates.getStatePath(flow.definition.auth);
+      } catch (error) {
+        console.error(`🔐 ${flow.definition.name}: ${(error as Error).message}`);
+        await agent.close();
+        return this.createErrorResult(flow, (error as Error).message);
+      }
+    }
+    
+    const flowTimeout = flow.definition.timeout ?? this.config.execution.flowTimeout;
+    const deadline = createDeadline(flowTimeout, `⏱️ Timeout del flow: superó ${flowTimeout}ms`);
+    
+    agent.setBudget(budget);
+    if (this.config.ai.pricing) {
+      agent.setPricing(this.config.ai.pricing);
+    }
+    
+    try {
+      await agent.initialize({
+        ...this.config.browser,
+        headless: this.options.headless,
+        slowMo: this.options.slowMo,
+        storageState
+      }, {
+        provider: this.config.ai.provider,
+        providers: this.config.ai.providers,
+        fixtures: this.config.ai.fixtures,
+        fallbackProviders: this.config.ai.fallbackProviders,
+        requestRetry: this.config.ai.requestRetry,
+        model: flow.definition.model
+      });
+      // El agente corta el paso en curso al vencer el deadline; si no termina
+      // dentro del margen (ej: beforeAll colgado), se corta acá
+      result = await raceWithSignal(execute(deadline.signal), deadline.signal, TIMEOUT_GRACE_MS);
+      
+      // Flow de setup exitoso: guardar la sesión para los flows con auth
+      if (result.success && flow.definition.setup) {
+        await agent.saveStorageState(this.authStates.getPath(flow.definition.setup));
+      }
+    } catch (error) {
+      if (isTimeoutError(error)) {
+        console.error(`⏱️  Timeout: ${flow.definition.name} - ${(error as Error).message}`);
+        result = { ...this.createErrorResult(flow, (error as Error).message), timedOut: true };
+      } else {
+        console.error(`💥 Error fatal: ${flow.definition.name} - ${(error as Error).message}`);
+        result = this.createErrorResult(flow, (error as Error).message);
+      }
+    } finally {
+      deadline.dispose();
+      // Cerrar el navegador también aborta las acciones de Playwright que quedaron en curso
+      await agent.close();
+    }
+    
+    const videoPath = agent.getVideoPath();
+    if (videoPath) {
+      result.video = videoPath;
+    }
+    
+    return result;
+  }
+  
+  /**
+   * Ejecuta los flows de setup antes que el resto: los seleccionados por los filtros
+   * siempre, y los que necesitan los flows a ejecutar solo si su sesión no existe o venció
+   */
+  private async runSetupFlows(flowsToRun: LoadedFlow[], mainFlows: LoadedFlow[]): Promise<void> {
+    const selected = flowsToRun.map(f => f.definition.setup).filter((name): name is string => !!name);
+    const required = mainFlows.map(f => f.definition.auth).filter((name): name is string => !!name);
+    const names = [...new Set([...selected, ...required])];
+    
+    for (const name of names) {
+      try {
+        if (selected.includes(name)) {
+          await this.authStates.refresh(name);
+        } else if (this.authStates.isFresh(name)) {
+          console.log(`🔐 Sesión '${name}' vigente, se reutiliza: ${this.authStates.getPath(name)}`);
+        } else {
+          await this.authStates.getStatePath(name);
+        }
+      } catch (error) {
+        // Cada flow que use la sesión falla con este mismo error
+        console.error((error as Error).message);
+      }
+    }
+  }
+  
+  /**
+   * Ejecuta un flow de setup (con reintentos) que guarda su sesión al terminar
+   */
+  private runSetupFlow(flow: LoadedFlow): Promise<FlowExecutionResult> {
+    console.log(`\n${'='.repeat(60)}`);
+    console.log(`🔐 [setup '${flow.definition.setup}'] ${flow.definition.name}`);
+    console.log(`${'='.repeat(60)}\n`);
+    
+    return this.runWithRetries(flow, async (_attempt, budget) => {
+      // Agente propio: puede ejecutarse mientras otros workers esperan la sesión
+      const agent = this.createAgent();
+      return this.runWithAgent(flow, agent, budget, signal => this.runFlowWithAgent(flow, agent, signal));
+    });
+  }
+  
+  /**
+   * Crea un agente con el caché de selectores configurado (archivo, TTL, rutas...)
+   */
+  private createAgent(): PlaywrightAIAgent {
+    const { cacheConfig, useSelectorCache } = getAgentOptions(this.config);
+    const agent = new PlaywrightAIAgent(cacheConfig);
+    agent.useSelectorCache = useSelectorCache;
+    if (this.config.ai.mode && this.config.ai.mode !== 'normal') {
+      agent.setAIMode(this.config.ai.mode);
+    }
+    return agent;
+  }
+  
+  /**
+   * Pasos que fallaron por no estar en el caché (modo estricto)
+   */
+  private getNotLearnedSteps(result: TestRunResult): { flow: string; step: number; instruction: string }[] {
+    return result.flows.flatMap(flow => flow.steps
+      .filter(step => step.notLearned)
+      .map(step => ({ flow: flow.name, step: step.step, instruction: step.instruction })));
+  }
+  
+  /**
+   * Construye el resultado de un flow que falló antes de ejecutar sus pasos
+   */
+  private createErrorResult(flow: LoadedFlow, error: string, duration: number = 0): FlowExecutionResult {
+    return {
+      name: flow.definition.name,
+      tags: flow.definition.tags || [],
+      success: false,
+      totalSteps: flow.steps.length,
+      completedSteps: 0,
+      duration,
+      error,
+      steps: []
+    };
+  }
+  
   /**
    * Ejecuta flows en paralelo
    */
@@ -176,40 +435,26 @@ export class FlowRunner {
         // Interceptar console para agregar prefijo
         const restore = logger.intercept();
         
-        // Crear agente propio para este worker
-        const agent = new PlaywrightAIAgent();
-        
         try {
-          await agent.initialize({ 
-            headless: this.options.headless,
-            slowMo: this.options.slowMo
+          const result = await this.runWithRetries(flow, async (_attempt, budget) => {
+            // Crear agente propio para este intento
+            const agent = this.createAgent();
+            return this.runWithAgent(flow, agent, budget, signal => {
+              console.log(`🧪 Iniciando: ${flow.definition.name}`);
+              return this.runFlowWithAgent(flow, agent, signal);
+            });
           });
           
-          console.log(`🧪 Iniciando: ${flow.definition.name}`);
-          
-          const result = await this.runFlowWithAgent(flow, agent);
-          
           if (result.success) {
-            console.log(`✅ Completado: ${flow.definition.name} (${(result.duration / 1000).toFixed(1)}s)`);
+            console.log(`✅ Completado: ${flow.definition.name} (${(result.duration / 1000).toFixed(1)}s)${result.flaky ? ' [flaky]' : ''}`);
+          } else if (result.timedOut) {
+            console.log(`⏱️  Timeout: ${flow.definition.name} - ${result.error}`);
           } else {
             console.log(`❌ Fallido: ${flow.definition.name} - ${result.error}`);
           }
           
           return result;
-        } catch (error) {
-          console.error(`💥 Error fatal: ${flow.definition.name} - ${(error as Error).message}`);
-          return {
-            name: flow.definition.name,
-            tags: flow.definition.tags || [],
-            success: false,
-            totalSteps: flow.definition.steps.length,
-            completedSteps: 0,
-            duration: 0,
-            error: (error as Error).message,
-            steps: []
-          };
         } finally {
-          await agent.close();
           restore(); // Restaurar console original
         }
       }
@@ -218,6 +463,8 @@ export class FlowRunner {
     // Ejecutar en pool
     const poolResults = await runInPool(tasks, {
       maxWorkers,
+      // Presupuesto agotado: los workers no toman flows nuevos (los activos terminan fallando su paso)
+      shouldStop: () => this.budget.isExceeded(),
       onProgress: (completed, total, result) => {
         const pct = Math.round((completed / total) * 100);
         console.log(`\n📊 Progreso: ${completed}/${total} (${pct}%) - ${result.id}: ${result.success ? '✅' : '❌'}`);
@@ -227,6 +474,10 @@ export class FlowRunner {
     console.log('\n' + '═'.repeat(60));
     console.log(`🏁 Ejecución paralela completada\n`);
     
+    if (poolResults.length < flows.length) {
+      console.log(`💸 Presupuesto de IA agotado (${this.budget.getExceededReason()}). Se omitieron ${flows.length - poolResults.length} flows.\n`);
+    }
+    
     // Convertir resultados del pool a FlowExecutionResult
     return poolResults.map(pr => {
       if (pr.success && pr.result) {
@@ -238,7 +489,7 @@ export class FlowRunner {
         name: pr.id,
         tags: flow?.definition.tags || [],
         success: false,
-        totalSteps: flow?.definition.steps.length || 0,
+        totalSteps: flow?.steps.length || 0,
         completedSteps: 0,
         duration: pr.duration,
         error: pr.error?.message || 'Unknown error',
@@ -250,24 +501,24 @@ export class FlowRunner {
   /**
    * Ejecuta un flow con un agente específico (para ejecución paralela)
    */
-  private async runFlowWithAgent(loadedFlow: LoadedFlow, agent: PlaywrightAIAgent): Promise<FlowExecutionResult> {
-    const { definition } = loadedFlow;
+  private async runFlowWithAgent(loadedFlow: LoadedFlow, agent: PlaywrightAIAgent, signal?: AbortSignal): Promise<FlowExecutionResult> {
+    const { definition, steps } = loadedFlow;
     const startTime = Date.now();
     const stepResults: StepExecutionResult[] = [];
     
     // Resolver variables
-    const resolver = new VariableResolver(definition.variables);
-    const resolvedSteps = resolver.resolveArray(definition.steps);
-    const resolvedUrl = definition.url ? resolver.resolve(definition.url) : this.options.baseUrl;
+    // Las variables del flow tienen prioridad sobre las globales (y las del ambiente)
+    const resolver = new VariableResolver({ ...this.config.globalVariables, ...definition.variables }, this.config.secretVariables);
+    const resolvedUrl = resolver.resolveSecrets(definition.url || this.options.baseUrl || '');
     
     // Validar variables
-    const validation = resolver.validateVariables(definition.steps);
+    const validation = resolver.validateVariables(steps);
     if (!validation.valid) {
       return {
         name: definition.name,
         tags: definition.tags || [],
         success: false,
-        totalSteps: definition.steps.length,
+        totalSteps: steps.length,
         completedSteps: 0,
         duration: Date.now() - startTime,
         error: `Variables faltantes: ${validation.missing.join(', ')}`,
@@ -283,7 +534,9 @@ export class FlowRunner {
       // No generar reportes individuales - se genera uno consolidado al final
       const result = await agent.executeFlow({
         url: resolvedUrl || '',
-        steps: resolvedSteps,
+        // Los pasos se resuelven al ejecutarse (pueden usar valores capturados por pasos anteriores)
+        steps,
+        variables: resolver,
         stopOnError: this.config.execution.stopOnError,
         delayBetweenSteps: definition.delayBetweenSteps || this.config.execution.delayBetweenSteps,
         analysisMode: definition.analysisMode || this.config.ai.analysisMode,
@@ -293,7 +546,9 @@ export class FlowRunner {
         generateJsonReport: false,
         reportDir: this.options.reportDir,
         screenshots: this.config.screenshots,
-        flowName: definition.name
+        flowName: definition.name,
+        stepTimeout: definition.stepTimeout ?? this.config.execution.stepTimeout,
+        signal
       });
       
       for (const step of result.steps) {
@@ -303,7 +558,14 @@ export class FlowRunner {
           success: step.success,
           duration: step.duration || 0,
           error: step.error,
-          screenshot: step.screenshot
+          screenshot: step.screenshot,
+          usage: step.usage,
+          timedOut: step.timedOut,
+          optional: step.optional,
+          attempts: step.attempts,
+          group: step.group,
+          captured: step.captured,
+          notLearned: step.notLearned
         });
       }
       
@@ -318,18 +580,24 @@ export class FlowRunner {
         totalSteps: result.totalSteps,
         completedSteps: result.completedSteps,
         duration: Date.now() - startTime,
-        steps: stepResults
+        error: result.error,
+        steps: stepResults,
+        usage: result.usage,
+        timedOut: result.timedOut,
+        generated: resolver.getGeneratedValues()
       };
     } catch (error) {
       return {
         name: definition.name,
         tags: definition.tags || [],
         success: false,
-        totalSteps: definition.steps.length,
+        totalSteps: steps.length,
         completedSteps: stepResults.filter(s => s.success).length,
         duration: Date.now() - startTime,
-        error: (error as Error).message,
-        steps: stepResults
+        error: resolver.maskSecrets((error as Error).message),
+        steps: stepResults,
+        timedOut: isTimeoutError(error),
+        generated: resolver.getGeneratedValues()
       };
     }
   }
@@ -337,25 +605,25 @@ export class FlowRunner {
   /**
    * Ejecuta un flow individual (para ejecución secuencial)
    */
-  private async runFlow(loadedFlow: LoadedFlow): Promise<FlowExecutionResult> {
-    const { definition } = loadedFlow;
+  private async runFlow(loadedFlow: LoadedFlow, signal?: AbortSignal): Promise<FlowExecutionResult> {
+    const { definition, steps } = loadedFlow;
     const startTime = Date.now();
     const stepResults: StepExecutionResult[] = [];
     
     // Resolver variables
-    const resolver = new VariableResolver(definition.variables);
-    const resolvedSteps = resolver.resolveArray(definition.steps);
-    const resolvedUrl = definition.url ? resolver.resolve(definition.url) : this.options.baseUrl;
+    // Las variables del flow tienen prioridad sobre las globales (y las del ambiente)
+    const resolver = new VariableResolver({ ...this.config.globalVariables, ...definition.variables }, this.config.secretVariables);
+    const resolvedUrl = resolver.resolveSecrets(definition.url || this.options.baseUrl || '');
     
     // Validar variables
-    const validation = resolver.validateVariables(definition.steps);
+    const validation = resolver.validateVariables(steps);
     if (!validation.valid) {
       console.error(`❌ Variables faltantes: ${validation.missing.join(', ')}`);
       return {
         name: definition.name,
         tags: definition.tags || [],
         success: false,
-        totalSteps: definition.steps.length,
+        totalSteps: steps.length,
         completedSteps: 0,
         duration: Date.now() - startTime,
         error: `Variables faltantes: ${validation.missing.join(', ')}`,
@@ -372,7 +640,9 @@ export class FlowRunner {
       // No generar reportes individuales - se genera uno consolidado al final
       const result = await this.agent!.executeFlow({
         url: resolvedUrl || '',
-        steps: resolvedSteps,
+        // Los pasos se resuelven al ejecutarse (pueden usar valores capturados por pasos anteriores)
+        steps,
+        variables: resolver,
         stopOnError: this.config.execution.stopOnError,
         delayBetweenSteps: definition.delayBetweenSteps || this.config.execution.delayBetweenSteps,
         analysisMode: definition.analysisMode || this.config.ai.analysisMode,
@@ -382,7 +652,9 @@ export class FlowRunner {
         generateJsonReport: false,
         reportDir: this.options.reportDir,
         screenshots: this.config.screenshots,
-        flowName: definition.name
+        flowName: definition.name,
+        stepTimeout: definition.stepTimeout ?? this.config.execution.stepTimeout,
+        signal
       });
       
       // Convertir resultados
@@ -393,7 +665,14 @@ export class FlowRunner {
           success: step.success,
           duration: step.duration || 0,
           error: step.error,
-          screenshot: step.screenshot
+          screenshot: step.screenshot,
+          usage: step.usage,
+          timedOut: step.timedOut,
+          optional: step.optional,
+          attempts: step.attempts,
+          group: step.group,
+          captured: step.captured,
+          notLearned: step.notLearned
         };
         stepResults.push(stepResult);
         
@@ -418,12 +697,18 @@ export class FlowRunner {
         completedSteps: result.completedSteps,
         duration: Date.now() - startTime,
         error: result.error,
-        steps: stepResults
+        steps: stepResults,
+        usage: result.usage,
+        timedOut: result.timedOut,
+        generated: resolver.getGeneratedValues()
       };
       
       // Log resultado
       if (result.success) {
         console.log(`\n✅ ${definition.name} - PASSED (${flowResult.duration}ms)`);
+      } else if (result.timedOut) {
+        console.log(`\n⏱️  ${definition.name} - TIMED OUT`);
+        console.log(`   Error: ${result.error}`);
       } else {
         console.log(`\n❌ ${definition.name} - FAILED`);
         console.log(`   Error: ${result.error}`);
@@ -432,7 +717,7 @@ export class FlowRunner {
       return flowResult;
       
     } catch (error) {
-      const errorMessage = (error as Error).message;
+      const errorMessage = resolver.maskSecrets((error as Error).message);
       console.log(`\n❌ ${definition.name} - ERROR`);
       console.log(`   ${errorMessage}`);
       
@@ -441,7 +726,7 @@ export class FlowRunner {
         try {
           const errorResult = {
             success: false,
-            totalSteps: definition.steps.length,
+            totalSteps: steps.length,
             completedSteps: 0,
             steps: [{
               step: 0,
@@ -449,7 +734,7 @@ export class FlowRunner {
               success: false,
               error: errorMessage
             }],
-            finalUrl: resolvedUrl,
+            finalUrl: resolver.maskSecrets(resolvedUrl),
             error: errorMessage
           };
           await this.agent.generateHTMLReport(errorResult as any, this.options.reportDir || './playwright-report');
@@ -463,11 +748,13 @@ export class FlowRunner {
         name: definition.name,
         tags: definition.tags || [],
         success: false,
-        totalSteps: definition.steps.length,
+        totalSteps: steps.length,
         completedSteps: stepResults.filter(s => s.success).length,
         duration: Date.now() - startTime,
         error: errorMessage,
-        steps: stepResults
+        steps: stepResults,
+        timedOut: isTimeoutError(error),
+        generated: resolver.getGeneratedValues()
       };
     }
   }
@@ -482,14 +769,28 @@ export class FlowRunner {
     console.log(`   Total:    ${result.totalFlows} flows`);
     console.log(`   ✅ Passed:  ${result.passed}`);
     console.log(`   ❌ Failed:  ${result.failed}`);
+    if (result.timedOut > 0) {
+      console.log(`   ⏱️  Timeout: ${result.timedOut}`);
+    }
+    if (result.flaky > 0) {
+      console.log(`   ⚠️  Flaky:   ${result.flaky} (pasaron tras reintentar)`);
+    }
     console.log(`   ⏱️  Tiempo:  ${(result.duration / 1000).toFixed(2)}s`);
+    if (result.usage) {
+      console.log(`   🪙 Tokens:  ${result.usage.totalTokens} (${result.usage.llmCalls} llamadas al LLM) - ${formatCost(result.usage.cost)}`);
+      console.log(`   💾 Caché:   ${result.usage.cacheHits} hits - ahorro ~${result.usage.tokensSaved} tokens (${formatCost(result.usage.costSaved)})`);
+    }
+    if (result.skipped > 0) {
+      const reason = this.budget.getExceededReason();
+      console.log(`   ⏭️  Omitidos: ${result.skipped} (${reason ? `presupuesto agotado: ${reason}` : 'fail fast'})`);
+    }
     if (filtered > 0) {
       console.log(`   🔍 Filtrados: ${filtered} (no coinciden con el filtro)`);
     }
     console.log('='.repeat(60) + '\n');
     
     // Mostrar flows fallidos
-    const failed = result.flows.filter(f => !f.success);
+    const failed = result.flows.filter(f => !f.success && !f.timedOut);
     if (failed.length > 0) {
       console.log('❌ Flows fallidos:');
       failed.forEach(f => {
@@ -498,6 +799,39 @@ export class FlowRunner {
       });
       console.log('');
     }
+    
+    // Mostrar flows cortados por timeout
+    const timedOut = result.flows.filter(f => !f.success && f.timedOut);
+    if (timedOut.length > 0) {
+      console.log('⏱️  Flows con timeout:');
+      timedOut.forEach(f => {
+        console.log(`   • ${f.name}`);
+        console.log(`     Error: ${f.error}`);
+      });
+      console.log('');
+    }
+    
+    // Mostrar pasos que faltan aprender (modo estricto)
+    const notLearned = this.getNotLearnedSteps(result);
+    if (notLearned.length > 0) {
+      console.log(`🧠 Pasos no aprendidos (ejecutar con --learn para agregarlos al caché):`);
+      notLearned.forEach(s => console.log(`   • ${s.flow} › paso ${s.step}: ${s.instruction}`));
+      console.log('');
+    }
+    
+    // Mostrar flows flaky
+    const flaky = result.flows.filter(f => f.flaky);
+    if (flaky.length > 0) {
+      console.log('⚠️  Flows flaky:');
+      flaky.forEach(f => {
+        console.log(`   • ${f.name} (${f.attempts?.length} intentos)`);
+        const firstError = f.attempts?.find(a => !a.success)?.error;
+        if (firstError) {
+          console.log(`     Primer error: ${firstError}`);
+        }
+      });
+      console.log('');
+    }
   }
   
   /**
@@ -524,14 +858,20 @@ export class FlowRunner {
     
     // Generar HTML de cada flow
     const flowsHtml = result.flows.map((flow, index) => {
-      const flowStatus = flow.success ? 'passed' : 'failed';
+      const flowStatus = flow.success ? (flow.flaky ? 'passed flaky' : 'passed') : (flow.timedOut ? 'timedout' : 'failed');
       const flowDuration = flow.duration ? `${(flow.duration / 1000).toFixed(1)}s` : 'N/A';
       const tagsHtml = flow.tags.map(t => `<span class="tag">${t}</span>`).join(' ');
       
+      let previousGroup = '';
       const stepsHtml = flow.steps.map(step => {
-        const stepStatus = step.success ? 'passed' : 'failed';
+        const stepStatus = step.success ? 'passed' : (step.timedOut ? 'timedout' : 'failed');
         const stepDuration = step.duration ? `${(step.duration / 1000).toFixed(1)}s` : 'N/A';
         const cleanError = step.error ? this.stripAnsiCodes(step.error) : '';
+        const stepUsage = step.usage && (step.usage.llmCalls > 0 || step.usage.cacheHits > 0)
+          ? `<span class="step-usage">${step.usage.llmCalls > 0 
+              ? `🪙 ${step.usage.totalTokens} tokens · ${formatCost(step.usage.cost)}${step.usage.providers?.length ? ` · 🤖 ${step.usage.providers.join(', ')}` : ''}` 
+              : '💾 caché (0 tokens)'}</span>`
+          : '';
         
         // Generar HTML de screenshot si existe
         const screenshotHtml = step.screenshot 
@@ -540,14 +880,23 @@ export class FlowRunner {
              </div>` 
           : '';
         
-        return `
-          <div class="step ${stepStatus}">
+        // Encabezado cada vez que empiezan los pasos de un sub-flow incluido con use()
+        const group = step.group || [];
+        const groupHtml = group.length > 0 && group.join(' › ') !== previousGroup
+          ? `<div class="step-group" style="margin-left: ${(group.length - 1) * 20}px">📦 ${group.join(' › ')}</div>`
+          : '';
+        previousGroup = group.join(' › ');
+        
+        return `${groupHtml}
+          <div class="step ${stepStatus}"${group.length > 0 ? ` style="margin-left: ${group.length * 20}px"` : ''}>
             <div class="step-header">
               <span class="step-number">Paso ${step.step}</span>
               <span class="step-time">⏱️ ${stepDuration}</span>
-              <span class="step-status ${stepStatus}">${step.success ? '✅' : '❌'}</span>
+              ${stepUsage}
+              <span class="step-status ${stepStatus}">${step.success ? '✅' : step.timedOut ? '⏱️' : '❌'}</span>
             </div>
-            <div class="step-instruction">${step.instruction}</div>
+            <div class="step-instruction">${step.instruction}${step.optional ? ' <span class="step-badge">opcional</span>' : ''}${(step.attempts || 1) > 1 ? ` <span class="step-badge">${step.attempts} intentos</span>` : ''}${step.notLearned ? ' <span class="step-badge">🧠 no aprendido</span>' : ''}</div>
+            ${step.captured ? `<div class="step-captured">📥 ${Object.entries(step.captured).map(([name, value]) => `<code>${name}</code> = ${value}`).join(' · ')}</div>` : ''}
             ${cleanError ? `<div class="step-error">❌ ${cleanError}</div>` : ''}
             ${screenshotHtml}
           </div>
@@ -556,22 +905,46 @@ export class FlowRunner {
       
       const cleanFlowError = flow.error ? this.stripAnsiCodes(flow.error) : '';
       
+      // Video del flow (ruta relativa al reporte para que funcione al abrir el HTML)
+      const videoHtml = flow.video
+        ? `<div class="flow-video">
+            <video controls preload="metadata" src="${path.relative(reportDir, flow.video).split(path.sep).join('/')}"></video>
+           </div>`
+        : '';
+      
+      // Intentos previos fallidos (solo si hubo reintentos)
+      const previousAttempts = (flow.attempts || []).slice(0, -1);
+      const attemptsHtml = previousAttempts.length > 0
+        ? `<div class="flow-attempts">
+            <strong>🔁 Intentos (${flow.attempts!.length}):</strong>
+            ${previousAttempts.map(a => `
+              <div class="attempt">Intento ${a.attempt}: ❌ ${a.completedSteps}/${flow.totalSteps} pasos - ${a.error ? this.stripAnsiCodes(a.error) : 'Paso fallido'}</div>
+            `).join('')}
+           </div>`
+        : '';
+      
       return `
         <div class="flow-card ${flowStatus}">
           <div class="flow-header" onclick="toggleFlow('flow-${index}')">
             <div class="flow-title">
-              <span class="flow-icon">${flow.success ? '✅' : '❌'}</span>
+              <span class="flow-icon">${flow.success ? '✅' : flow.timedOut ? '⏱️' : '❌'}</span>
               <span class="flow-name">${flow.name}</span>
+              ${flow.flaky ? '<span class="flaky-badge">⚠️ flaky</span>' : ''}
               <span class="flow-tags">${tagsHtml}</span>
             </div>
             <div class="flow-meta">
               <span class="flow-steps">${flow.completedSteps}/${flow.totalSteps} pasos</span>
+              ${flow.usage ? `<span class="flow-usage">🪙 ${flow.usage.totalTokens} tokens · ${formatCost(flow.usage.cost)}</span>` : ''}
               <span class="flow-time">⏱️ ${flowDuration}</span>
               <span class="flow-toggle">▼</span>
             </div>
           </div>
           <div class="flow-body" id="flow-${index}" style="display: none;">
-            ${cleanFlowError && !flow.steps.length ? `<div class="flow-error">❌ ${cleanFlowError}</div>` : ''}
+            ${flow.generated && Object.keys(flow.generated).length > 0 ? `<div class="flow-dataset">🎲 ${Object.entries(flow.generated).map(([expression, value]) => `<code>\${${expression}}</code>=${value}`).join(' · ')}</div>` : ''}
+            ${flow.datasetRow ? `<div class="flow-dataset">📊 Fila ${flow.datasetRow.index}: ${Object.entries(flow.datasetRow.values).map(([key, value]) => `<code>${key}</code>=${value}`).join(' · ')}</div>` : ''}
+            ${cleanFlowError && (!flow.steps.length || flow.timedOut) ? `<div class="flow-error">${flow.timedOut ? '⏱️' : '❌'} ${cleanFlowError}</div>` : ''}
+            ${attemptsHtml}
+            ${videoHtml}
             ${stepsHtml}
           </div>
         </div>
@@ -582,6 +955,8 @@ export class FlowRunner {
     const startTimeStr = new Date(startTime).toLocaleString('es-ES');
     const endTimeStr = new Date().toLocaleString('es-ES');
     const executionMode = this.config.execution.parallel ? 'Paralelo' : 'Secuencial';
+    const notLearned = this.getNotLearnedSteps(result);
+    const usage = result.usage || sumUsage();
     const workersInfo = this.config.execution.parallel ? ` (${this.config.execution.maxWorkers} workers)` : '';
     
     const html = `
@@ -631,9 +1006,11 @@ export class FlowRunner {
     .summary-card .value.total { color: #3b82f6; }
     .summary-card .value.time { color: #8b5cf6; }
     .summary-card .value.mode { color: #f59e0b; font-size: 18px; }
+    .summary-card .value.warning { color: #f59e0b; }
     
     .flows-container { background: white; border-radius: 10px; padding: 20px; }
     .flows-container h2 { margin-top: 0; }
+    .flows-container.not-learned { margin-bottom: 20px; border-left: 4px solid #8b5cf6; }
     
     .flow-card { 
       border: 1px solid #e5e7eb; 
@@ -643,6 +1020,25 @@ export class FlowRunner {
     }
     .flow-card.passed { border-left: 4px solid #22c55e; }
     .flow-card.failed { border-left: 4px solid #ef4444; }
+    .flow-card.flaky { border-left: 4px solid #f59e0b; }
+    .flow-card.timedout { border-left: 4px solid #8b5cf6; }
+    .flaky-badge { 
+      background: #fef3c7; 
+      color: #b45309; 
+      padding: 2px 8px; 
+      border-radius: 4px; 
+      font-size: 12px; 
+      font-weight: 600;
+    }
+    .flow-attempts { 
+      background: #fffbeb; 
+      border: 1px solid #fde68a; 
+      padding: 10px; 
+      border-radius: 4px; 
+      margin-bottom: 10px; 
+      font-size: 13px; 
+    }
+    .flow-attempts .attempt { color: #92400e; margin-top: 4px; }
     
     .flow-header { 
       display: flex; 
@@ -657,6 +1053,7 @@ export class FlowRunner {
     .flow-title { display: flex; align-items: center; gap: 10px; }
     .flow-icon { font-size: 18px; }
     .flow-name { font-weight: 600; font-size: 16px; }
+    .flow-dataset { color: #4b5563; font-size: 13px; margin-bottom: 10px; }
     .flow-tags { display: flex; gap: 5px; }
     .tag { 
       background: #e0e7ff; 
@@ -686,14 +1083,23 @@ export class FlowRunner {
     }
     .step.passed { border-left: 3px solid #22c55e; }
     .step.failed { border-left: 3px solid #ef4444; background: #fef2f2; }
+    .step.timedout { border-left: 3px solid #8b5cf6; background: #f5f3ff; }
     .step-header { display: flex; justify-content: space-between; align-items: center; margin-bottom: 8px; }
     .step-number { font-weight: 600; color: #374151; }
     .step-time { color: #8b5cf6; font-size: 13px; }
+    .step-usage { color: #6b7280; font-size: 12px; }
     .step-status.passed { color: #22c55e; }
     .step-status.failed { color: #ef4444; }
+    .step-status.timedout { color: #8b5cf6; }
     .step-instruction { color: #4b5563; }
+    .step-captured { color: #047857; font-size: 13px; margin-top: 4px; }
+    .step-group { color: #6b7280; font-size: 12px; font-weight: 600; margin: 10px 0 4px; }
+    .step-badge { background: #e5e7eb; color: #374151; padding: 1px 6px; border-radius: 4px; font-size: 11px; }
     .step-error { color: #ef4444; font-size: 13px; background: #fee2e2; padding: 8px; border-radius: 4px; margin-top: 8px; }
     
+    .flow-video { margin-bottom: 10px; }
+    .flow-video video { max-width: 100%; border-radius: 6px; border: 1px solid #e5e7eb; }
+    
     .step-screenshot { margin-top: 10px; }
     .step-screenshot img { 
       max-width: 100%; 
@@ -751,6 +1157,7 @@ export class FlowRunner {
         <span>📅 Inicio: ${startTimeStr}</span>
         <span>🏁 Fin: ${endTimeStr}</span>
         <span>⚙️ Modo: ${executionMode}${workersInfo}</span>
+        ${this.config.environment ? `<span>🌎 Ambiente: ${this.config.environment}</span>` : ''}
       </div>
     </div>
     
@@ -767,14 +1174,35 @@ export class FlowRunner {
         <h3>Fallidos</h3>
         <div class="value error">${result.failed}</div>
       </div>
+      <div class="summary-card">
+        <h3>Timeout</h3>
+        <div class="value ${result.timedOut === 0 ? 'success' : 'error'}">${result.timedOut}</div>
+      </div>
+      <div class="summary-card">
+        <h3>Flaky</h3>
+        <div class="value warning">${result.flaky}</div>
+      </div>
       <div class="summary-card">
         <h3>Tiempo Total</h3>
         <div class="value time">${totalDuration}</div>
       </div>
+      <div class="summary-card">
+        <h3>Tokens (${usage.llmCalls} llamadas)</h3>
+        <div class="value total">${usage.totalTokens.toLocaleString('es-ES')}</div>
+      </div>
+      <div class="summary-card">
+        <h3>Costo Estimado</h3>
+        <div class="value time">${formatCost(usage.cost)}</div>
+      </div>
+      <div class="summary-card">
+        <h3>Ahorro Caché (${usage.cacheHits} hits)</h3>
+        <div class="value success">${usage.tokensSaved.toLocaleString('es-ES')}</div>
+        <div>tokens · ${formatCost(usage.costSaved)}</div>
+      </div>
       <div class="summary-card">
         <h3>Estado</h3>
-        <div class="value ${result.failed === 0 ? 'success' : 'error'}">
-          ${result.failed === 0 ? '✅ PASSED' : '❌ FAILED'}
+        <div class="value ${result.failed + result.timedOut === 0 ? 'success' : 'error'}">
+          ${result.failed + result.timedOut === 0 ? '✅ PASSED' : '❌ FAILED'}
         </div>
       </div>
       <div class="summary-card">
@@ -783,6 +1211,13 @@ export class FlowRunner {
       </div>
     </div>
 
+    ${notLearned.length > 0 ? `
+    <div class="flows-container not-learned">
+      <h2>🧠 Pasos no aprendidos (${notLearned.length})</h2>
+      <p>No están en el caché: ejecutar con <code>--learn</code> para aprenderlos.</p>
+      <ul>${notLearned.map(s => `<li><strong>${s.flow}</strong> › paso ${s.step}: ${s.instruction}</li>`).join('')}</ul>
+    </div>` : ''}
+
     <div class="flows-container">
       <div style="display: flex; justify-content: space-between; align-items: center; margin-bottom: 15px;">
         <h2>📋 Detalle de Flows (${result.totalFlows})</h2>
@@ -824,8 +1259,8 @@ export class FlowRunner {
       toggles.forEach(t => allExpanded ? t.classList.add('open') : t.classList.remove('open'));
     }
     
-    // Auto-expandir flows fallidos
-    document.querySelectorAll('.flow-card.failed .flow-body').forEach(el => {
+    // Auto-expandir flows fallidos (también por timeout)
+    document.querySelectorAll('.flow-card.failed .flow-body, .flow-card.timedout .flow-body').forEach(el => {
       el.style.display = 'block';
       el.previousElementSibling.querySelector('.flow-toggle').classList.add('open');
     });
@@ -865,29 +1300,56 @@ export class FlowRunner {
       const jsonPath = path.join(reportDir, `report-${timestamp}.json`);
       const jsonReport = {
         timestamp: new Date().toISOString(),
+        environment: this.config.environment || null,
         executionMode: this.config.execution.parallel ? 'parallel' : 'sequential',
+        aiMode: this.config.ai.mode || 'normal',
         workers: this.config.execution.parallel ? this.config.execution.maxWorkers : 1,
         summary: {
           total: result.totalFlows,
           passed: result.passed,
           failed: result.failed,
+          timedOut: result.timedOut,
+          flaky: result.flaky,
           duration: result.duration,
           durationFormatted: totalDuration
         },
+        notLearned: this.getNotLearnedSteps(result),
+        usage,
         flows: result.flows.map(f => ({
           name: f.name,
           tags: f.tags,
           success: f.success,
+          timedOut: f.timedOut || false,
+          flaky: f.flaky || false,
+          datasetRow: f.datasetRow || null,
+          generated: f.generated || null,
           totalSteps: f.totalSteps,
           completedSteps: f.completedSteps,
           duration: f.duration,
           error: f.error || null,
+          video: f.video || null,
+          usage: f.usage || null,
           steps: f.steps.map(s => ({
             step: s.step,
             instruction: s.instruction,
             success: s.success,
             duration: s.duration,
-            error: s.error || null
+            error: s.error || null,
+            timedOut: s.timedOut || false,
+            optional: s.optional || false,
+            attempts: s.attempts || 1,
+            group: s.group || [],
+            captured: s.captured || null,
+            notLearned: s.notLearned || false,
+            usage: s.usage || null
+          })),
+          attempts: (f.attempts || []).map(a => ({
+            attempt: a.attempt,
+            success: a.success,
+            completedSteps: a.completedSteps,
+            duration: a.duration,
+            error: a.error || null,
+            video: a.video || null
           }))
         }))
       };
@@ -30,7 +30,7 @@
  * ```
  */
 
-export { defineFlow, defineFlows } from './define-flow.js';
+export { defineFlow, defineFlows, defineSteps, use } from './define-flow.js';
 export { FlowRunner } from './flow-runner.js';
 export { FlowLoader } from './flow-loader.js';
 export { VariableResolver } from './variable-resolver.js';
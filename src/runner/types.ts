@@ -3,12 +3,42 @@
  */
 
 import { AITestConfig } from '../config/types.js';
+import { FlowStep, FlowStepInput } from '../ai-agent.js';
+import { UsageSummary } from '../llm-usage.js';
+
+/**
+ * Grupo de pasos reutilizable (defineSteps) o flow incluido en otro flow
+ */
+export interface StepGroup {
+  /** Nombre del grupo (se muestra en logs y reportes) */
+  name: string;
+  steps: FlowStepEntry[];
+  /** Valores por defecto de los parámetros del grupo */
+  variables?: Record<string, string>;
+}
+
+/**
+ * Inclusión de un grupo de pasos o de otro flow (ver use())
+ */
+export interface FlowInclude {
+  use: StepGroup;
+  /** Parámetros ${VAR} para los pasos incluidos (sobreescriben las variables del grupo) */
+  params?: Record<string, string>;
+}
+
+/**
+ * Entrada de `steps`: paso (texto u objeto) o inclusión de otro flow/grupo
+ */
+export type FlowStepEntry = FlowStepInput | FlowInclude;
 
 /**
  * Definición de un flow de test
  */
 export interface FlowDefinition {
-  /** Nombre descriptivo del test */
+  /**
+   * Nombre descriptivo del test
+   * Con dataset es la plantilla del nombre de cada fila (ej: 'Crear operador ${OPERADOR_NOMBRE}')
+   */
   name: string;
   
   /** Etiquetas para filtrar tests */
@@ -17,21 +47,50 @@ export interface FlowDefinition {
   /** URL inicial (puede usar variables ${VAR}) */
   url?: string;
   
-  /** Pasos en lenguaje natural */
-  steps: string[];
+  /**
+   * Pasos en lenguaje natural: texto plano u objetos con opciones por paso
+   * ({ do, timeout, retries, analysisMode, optional, continueOnError, screenshot, expect })
+   * o inclusiones de otros flows/grupos con use()
+   */
+  steps: FlowStepEntry[];
   
-  /** Timeout en ms (default: 60000) */
+  /** Timeout del flow completo en ms (default: execution.flowTimeout) */
   timeout?: number;
   
+  /** Timeout de cada paso en ms (default: execution.stepTimeout) */
+  stepTimeout?: number;
+  
   /** Delay entre pasos en ms (default: 2000) */
   delayBetweenSteps?: number;
   
   /** Modo de análisis: 'html' | 'screenshot' | 'hybrid' */
   analysisMode?: 'html' | 'screenshot' | 'hybrid';
   
+  /** Modelo para este flow (sobreescribe el del proveedor, útil en pantallas difíciles) */
+  model?: string;
+  
   /** Variables específicas de este flow */
   variables?: Record<string, string>;
   
+  /**
+   * Datos para ejecutar el flow una vez por fila: ruta a un .csv/.json
+   * (relativa al directorio del proyecto) o array inline
+   * Las columnas de cada fila se agregan a `variables`
+   */
+  dataset?: string | Record<string, string | number | boolean>[];
+  
+  /** Fila del dataset con la que se generó este flow (lo completa FlowLoader) */
+  datasetRow?: { index: number; values: Record<string, string> };
+  
+  /**
+   * Flow de setup: al terminar con éxito guarda la sesión (storageState) con este nombre
+   * Se ejecuta antes que el resto y se re-ejecuta cuando la sesión vence (execution.authMaxAge)
+   */
+  setup?: string;
+  
+  /** Sesión guardada por un flow de setup con la que arranca este flow (ej: 'admin') */
+  auth?: string;
+  
   /** Ejecutar antes de los pasos */
   beforeAll?: () => Promise<void>;
   
@@ -110,6 +169,38 @@ export interface FlowExecutionResult {
   duration: number;
   error?: string;
   steps: StepExecutionResult[];
+  /** Todos los intentos ejecutados (incluye reintentos) */
+  attempts?: FlowAttempt[];
+  /** true si el flow pasó solo después de uno o más reintentos */
+  flaky?: boolean;
+  /** Ruta del video grabado (si browser.recordVideo está habilitado) */
+  video?: string;
+  /** Tokens y costo del flow (suma de todos los intentos) */
+  usage?: UsageSummary;
+  /** true si el flow se cortó por timeout (se cuenta aparte de los fallidos) */
+  timedOut?: boolean;
+  /** Fila del dataset (flows data-driven) */
+  datasetRow?: { index: number; values: Record<string, string> };
+  /** Valores generados con ${$...} en el último intento (expresión -> valor) */
+  generated?: Record<string, string>;
+}
+
+/**
+ * Resultado de un intento individual de un flow
+ */
+export interface FlowAttempt {
+  /** Número de intento (1 = ejecución original) */
+  attempt: number;
+  success: boolean;
+  completedSteps: number;
+  duration: number;
+  error?: string;
+  steps: StepExecutionResult[];
+  /** Ruta del video grabado en este intento */
+  video?: string;
+  /** Tokens y costo del intento */
+  usage?: UsageSummary;
+  timedOut?: boolean;
 }
 
 /**
@@ -123,6 +214,20 @@ export interface StepExecutionResult {
   error?: string;
   /** Screenshot en base64 (si está habilitado) */
   screenshot?: string;
+  /** Tokens y costo del paso */
+  usage?: UsageSummary;
+  /** El paso se cortó por timeout */
+  timedOut?: boolean;
+  /** Paso opcional (su fallo no hace fallar el flow) */
+  optional?: boolean;
+  /** Intentos ejecutados (> 1 si se usaron los reintentos del paso) */
+  attempts?: number;
+  /** Sub-flows de los que proviene el paso (vacío si es un paso propio del flow) */
+  group?: string[];
+  /** Valores capturados de la página en este paso (ej: { OP_ID: '12345' }) */
+  captured?: Record<string, string>;
+  /** Modo estricto: el paso falló porque no está en el caché */
+  notLearned?: boolean;
 }
 
 /**
@@ -132,9 +237,15 @@ export interface TestRunResult {
   totalFlows: number;
   passed: number;
   failed: number;
+  /** Flows cortados por timeout (no incluidos en failed) */
+  timedOut: number;
+  /** Flows que pasaron después de reintentar (incluidos en passed) */
+  flaky: number;
   skipped: number;
   duration: number;
   flows: FlowExecutionResult[];
+  /** Tokens y costo totales de la ejecución */
+  usage?: UsageSummary;
 }
 
 /**
@@ -143,4 +254,6 @@ export interface TestRunResult {
 export interface LoadedFlow {
   filePath: string;
   definition: FlowDefinition;
+  /** Pasos con las inclusiones (use) expandidas */
+  steps: FlowStep[];
 }
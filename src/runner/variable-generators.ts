@@ -0,0 +1,86 @@
+import * as crypto from 'crypto';
+
+/**
+ * Generadores de valores dinámicos para ${$...}
+ *
+ * - ${$uuid}                       -> 'a3f1c2d4-...'
+ * - ${$timestamp}                  -> '1760000000000' (ms)
+ * - ${$today}                      -> '19/10/2026' (formato por defecto DD/MM/YYYY)
+ * - ${$today+2d:DD/MM/YYYY}        -> hoy + 2 días (unidades: d, w, m, y)
+ * - ${$now:YYYY-MM-DD HH:mm}       -> fecha y hora actual
+ * - ${$random.email}               -> 'test.k3j9x2@example.com'
+ * - ${$random.int(1,100)}          -> entero entre 1 y 100 (inclusive)
+ * - ${$random.string(8)}           -> 8 caracteres alfanuméricos
+ *
+ * Un sufijo #etiqueta genera otro valor independiente: ${$uuid#op1}, ${$uuid#op2}
+ */
+
+const DATE_PATTERN = /^\$(today|now)(?:([+-]\d+)([dwmy]))?(?::(.+))?$/;
+const INT_PATTERN = /^\$random\.int\(\s*(-?\d+)\s*,\s*(-?\d+)\s*\)$/;
+const STRING_PATTERN = /^\$random\.string(?:\(\s*(\d+)\s*\))?$/;
+
+/**
+ * Genera el valor de una expresión ${$...}
+ * @returns undefined si la expresión no corresponde a ningún generador
+ */
+export function generateValue(expression: string, now: Date = new Date()): string | undefined {
+  const expr = expression.replace(/#[\w-]*$/, '').trim();
+
+  if (expr === '$uuid') return crypto.randomUUID();
+  if (expr === '$timestamp') return String(now.getTime());
+  if (expr === '$random.email') return `test.${randomString(6)}@example.com`;
+
+  const dateMatch = expr.match(DATE_PATTERN);
+  if (dateMatch) {
+    const [, kind, amount, unit, format] = dateMatch;
+    const date = amount ? addToDate(now, parseInt(amount, 10), unit) : new Date(now);
+    return formatDate(date, format || (kind === 'now' ? 'DD/MM/YYYY HH:mm' : 'DD/MM/YYYY'));
+  }
+
+  const intMatch = expr.match(INT_PATTERN);
+  if (intMatch) {
+    const min = parseInt(intMatch[1], 10);
+    const max = parseInt(intMatch[2], 10);
+    return String(crypto.randomInt(Math.min(min, max), Math.max(min, max) + 1));
+  }
+
+  const stringMatch = expr.match(STRING_PATTERN);
+  if (stringMatch) {
+    return randomString(stringMatch[1] ? parseInt(stringMatch[1], 10) : 8);
+  }
+
+  return undefined;
+}
+
+/**
+ * Formatea una fecha con los tokens YYYY, YY, MM, DD, HH, mm, ss
+ */
+export function formatDate(date: Date, format: string): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const tokens: Record<string, string> = {
+    YYYY: String(date.getFullYear()),
+    YY: String(date.getFullYear()).slice(-2),
+    MM: pad(date.getMonth() + 1),
+    DD: pad(date.getDate()),
+    HH: pad(date.getHours()),
+    mm: pad(date.getMinutes()),
+    ss: pad(date.getSeconds())
+  };
+  return format.replace(/YYYY|YY|MM|DD|HH|mm|ss/g, token => tokens[token]);
+}
+
+function addToDate(base: Date, amount: number, unit: string): Date {
+  const date = new Date(base);
+  switch (unit) {
+    case 'd': date.setDate(date.getDate() + amount); break;
+    case 'w': date.setDate(date.getDate() + amount * 7); break;
+    case 'm': date.setMonth(date.getMonth() + amount); break;
+    case 'y': date.setFullYear(date.getFullYear() + amount); break;
+  }
+  return date;
+}
+
+function randomString(length: number): string {
+  const alphabet = 'abcdefghijklmnopqrstuvwxyz0123456789';
+  return Array.from({ length }, () => alphabet[crypto.randomInt(alphabet.length)]).join('');
+}
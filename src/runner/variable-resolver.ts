@@ -1,24 +1,66 @@
 import 'dotenv/config';
+import { FlowStepInput } from '../ai-agent.js';
+import { generateValue } from './variable-generators.js';
+
+/** Profundidad máxima de variables que contienen otras variables */
+const MAX_NESTING = 5;
+
+/** Nombres de variables que se consideran secretas por convención */
+export const SECRET_NAME_PATTERN = /(PASSWORD|PASSWD|PWD|SECRET|TOKEN|API_?KEY|PRIVATE_?KEY|CREDENTIAL|CLAVE|CONTRASE[NÑ]A)/i;
+
+/** Texto que reemplaza a los valores secretos en logs y reportes */
+export const SECRET_MASK = '***';
+
+/**
+ * Indica si una variable es secreta (por convención de nombre o listada en config.secretVariables)
+ */
+export function isSecretVariable(name: string, secretNames: string[] = []): boolean {
+  return secretNames.includes(name) || SECRET_NAME_PATTERN.test(name);
+}
 
 /**
  * Resuelve variables en formato ${VAR_NAME} usando:
- * 1. Variables de entorno (process.env)
- * 2. Variables locales pasadas como parámetro
+ * 1. Variables locales pasadas como parámetro
+ * 2. Variables de entorno (process.env)
+ * 3. El default de ${VAR:-fallback}
+ * 
+ * Las variables secretas (ej: ${TEST_PASSWORD}) NO se reemplazan con resolve(): quedan como
+ * placeholder en las instrucciones, el prompt, los logs, los reportes y el caché, y se
+ * reemplazan con resolveSecrets() recién al ejecutar la acción en el navegador
+ * 
+ * Además genera valores dinámicos con ${$uuid}, ${$today+2d:DD/MM/YYYY}, ${$random.int(1,100)}...
+ * (ver variable-generators.ts). Cada expresión se genera una sola vez por resolver,
+ * así el valor es estable durante toda la ejecución del flow
  * 
  * @example
  * ```typescript
  * const resolver = new VariableResolver({ nombre: 'Jonas' });
  * resolver.resolve('Hola ${nombre}, tu email es ${TEST_EMAIL}');
  * // -> 'Hola Jonas, tu email es usuario@test.com'
+ * resolver.resolve('Operador ${$random.string(6)} (${ROL:-admin})');
+ * // -> 'Operador k3j9x2 (admin)'
  * ```
  */
 export class VariableResolver {
   private localVariables: Record<string, string>;
+  private generated: Record<string, string> = {};
+  /** Variables del paso en curso (parámetros de use()): tienen prioridad sobre las locales */
+  private scope: Record<string, string> = {};
   
-  constructor(localVariables: Record<string, string> = {}) {
+  /**
+   * @param secretNames Variables secretas además de las detectadas por nombre (config.secretVariables)
+   */
+  constructor(localVariables: Record<string, string> = {}, private secretNames: string[] = []) {
     this.localVariables = localVariables;
   }
   
+  /**
+   * Indica si una variable es secreta
+   */
+  isSecret(name: string): boolean {
+    return isSecretVariable(name, this.secretNames);
+  }
+  
   /**
    * Agrega o actualiza variables locales
    */
@@ -26,27 +68,99 @@ export class VariableResolver {
     this.localVariables = { ...this.localVariables, ...variables };
   }
   
+  /**
+   * Define las variables del paso en curso (undefined las quita)
+   * Sus valores se resuelven con las variables del flow, no con otras del mismo paso
+   */
+  setScope(variables: Record<string, string> | undefined): void {
+    this.scope = variables || {};
+  }
+  
   /**
    * Resuelve todas las variables ${VAR} en un string
    */
   resolve(text: string): string {
-    return text.replace(/\$\{([^}]+)\}/g, (match, varName) => {
-      // Primero buscar en variables locales
-      if (this.localVariables[varName] !== undefined) {
-        return this.localVariables[varName];
-      }
+    return this.resolveText(text, 0, false);
+  }
+  
+  /**
+   * Resuelve todas las variables, incluidas las secretas
+   * Usar solo para el valor que se envía al navegador, nunca para logs
+   */
+  resolveSecrets(text: string): string {
+    return this.resolveText(text, 0, true);
+  }
+  
+  /**
+   * Reemplaza los valores de las variables secretas conocidas por ***
+   */
+  maskSecrets(text: string): string {
+    const names = [...Object.keys(this.localVariables), ...Object.keys(process.env)].filter(name => this.isSecret(name));
+    // Los parámetros secretos de use() suelen referenciar otra variable: se enmascara el valor resuelto
+    const scopeValues = Object.keys(this.scope).filter(name => this.isSecret(name)).map(name => this.lookup(name) ?? '');
+    const values = [...new Set([...names.map(name => this.localVariables[name] ?? process.env[name] ?? ''), ...scopeValues])]
+      // Valores muy cortos reemplazarían texto común
+      .filter(value => value.length >= 3)
+      .sort((a, b) => b.length - a.length);
+    
+    return values.reduce((masked, value) => masked.split(value).join(SECRET_MASK), text);
+  }
+  
+  /**
+   * Valores generados con ${$...} hasta el momento (expresión -> valor)
+   */
+  getGeneratedValues(): Record<string, string> {
+    return { ...this.generated };
+  }
+  
+  private resolveText(text: string, depth: number, includeSecrets: boolean, useScope: boolean = true): string {
+    return text.replace(/\$\{([^}]+)\}/g, (match, expression) => {
+      // Las secretas quedan como placeholder hasta executeAction
+      if (!includeSecrets && this.isSecret(expression.split(':-')[0])) return match;
       
-      // Luego en variables de entorno
-      if (process.env[varName] !== undefined) {
-        return process.env[varName]!;
-      }
+      const value = this.lookup(expression, depth, includeSecrets, useScope);
+      if (value !== undefined) return value;
       
       // Si no se encuentra, dejar el placeholder (o lanzar error)
-      console.warn(`⚠️  Variable no encontrada: ${varName}`);
+      console.warn(`⚠️  Variable no encontrada: ${expression}`);
       return match;
     });
   }
   
+  /**
+   * Busca el valor de una expresión: generador, variable local, de entorno o default
+   */
+  private lookup(expression: string, depth: number = 0, includeSecrets: boolean = true, useScope: boolean = true): string | undefined {
+    if (expression.startsWith('$')) {
+      if (this.generated[expression] === undefined) {
+        const value = generateValue(expression);
+        if (value === undefined) return undefined;
+        this.generated[expression] = value;
+        console.log(`🎲 \${${expression}} = ${value}`);
+      }
+      return this.generated[expression];
+    }
+    
+    const separator = expression.indexOf(':-');
+    const varName = separator >= 0 ? expression.slice(0, separator) : expression;
+    
+    // Un parámetro del paso se resuelve con las variables del flow (ej: EMAIL: '${TEST_EMAIL}')
+    if (useScope && this.scope[varName] !== undefined) {
+      return depth < MAX_NESTING ? this.resolveText(this.scope[varName], depth + 1, includeSecrets, false) : this.scope[varName];
+    }
+    
+    const value = this.localVariables[varName] ?? process.env[varName];
+    
+    // Una variable puede contener otras (ej: FECHA_CARGA: '${$today+2d}')
+    if (value !== undefined) {
+      return depth < MAX_NESTING ? this.resolveText(value, depth + 1, includeSecrets, useScope) : value;
+    }
+    if (separator >= 0) {
+      return this.resolveText(expression.slice(separator + 2), depth + 1, includeSecrets, useScope);
+    }
+    return undefined;
+  }
+  
   /**
    * Resuelve variables en un array de strings
    */
@@ -71,16 +185,33 @@ export class VariableResolver {
   
   /**
    * Valida que todas las variables requeridas estén disponibles
+   * Una variable que un paso anterior menciona por nombre (ej: 'Guardar el número como OP_ID')
+   * se considera capturada durante la ejecución
    */
-  validateVariables(texts: string[]): { valid: boolean; missing: string[] } {
-    const allText = texts.join(' ');
-    const required = this.getRequiredVariables(allText);
+  validateVariables(texts: FlowStepInput[]): { valid: boolean; missing: string[] } {
     const missing: string[] = [];
+    const mentioned = new Set<string>();
     
-    for (const varName of required) {
-      if (this.localVariables[varName] === undefined && 
-          process.env[varName] === undefined) {
-        missing.push(varName);
+    for (const item of texts) {
+      const text = typeof item === 'string' ? item : `${item.do} ${item.expect || ''}`;
+      const scope = typeof item === 'string' ? {} : item.variables || {};
+      // Un parámetro del paso (use()) requiere las variables que referencia su valor
+      const required = this.getRequiredVariables(text).flatMap(expression => {
+        const value = scope[expression.split(':-')[0]];
+        return value !== undefined ? this.getRequiredVariables(value) : [expression];
+      });
+      
+      for (const varName of required) {
+        if (this.lookup(varName) === undefined &&
+            !mentioned.has(varName) &&
+            !missing.includes(varName)) {
+          missing.push(varName);
+        }
+      }
+      
+      // Palabras del paso fuera de ${...}: posibles nombres de variables capturadas
+      for (const word of text.replace(/\$\{[^}]+\}/g, ' ').match(/[A-Za-z_][A-Za-z0-9_]*/g) || []) {
+        mentioned.add(word);
       }
     }
     
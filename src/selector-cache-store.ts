@@ -0,0 +1,249 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { tryAcquireProcessLock } from './utils/locks.js';
+import { CachedSelector, SelectorCacheData } from './selector-cache.js';
+
+/**
+ * Cambio sobre el caché, tal como se registra en el journal
+ * Los contadores se guardan como incrementos: dos workers que marcan éxito no se pisan
+ */
+export type CacheOperation =
+  | { op: 'set'; key: string; entry: CachedSelector }
+  | { op: 'success'; key: string; at: number }
+  | { op: 'failure'; key: string }
+  | { op: 'delete'; key: string }
+  | { op: 'clear' };
+
+/**
+ * Snapshot del caché (selector-cache.json)
+ */
+interface CacheFileData {
+  version: string;
+  createdAt: number;
+  lastModified: number;
+  entries: SelectorCacheData;
+}
+
+/** Operaciones en el journal a partir de las cuales conviene compactar */
+const COMPACT_THRESHOLD = 200;
+
+/**
+ * Almacenamiento del caché de selectores compartible entre workers y procesos
+ *
+ * - `selector-cache.json`: snapshot (se reescribe solo al compactar, con tmp + rename)
+ * - `selector-cache.json.journal`: una operación JSON por línea, solo se agregan líneas
+ *
+ * Cada instancia aplica sus cambios en memoria y los agrega al journal; antes de leer,
+ * `sync()` aplica las líneas que agregaron otros workers/procesos. Al compactar, el journal
+ * se renombra (los nuevos cambios van a un journal nuevo) y se vuelca al snapshot bajo un
+ * lock entre procesos.
+ */
+export class SelectorCacheStore {
+  private data: SelectorCacheData = {};
+  private journalPath: string;
+  /** Bytes del journal ya aplicados */
+  private offset = 0;
+  /** Inodes del journal y del snapshot leídos (cambian cuando otro proceso compacta) */
+  private journalIno: number | null = null;
+  private snapshotIno: number | null = null;
+  /** Resto de una línea incompleta (escritura en curso de otro proceso) */
+  private partialLine = '';
+  /** Operaciones en el journal actual (propias y de otros procesos) */
+  private journalOps = 0;
+  /** Identifica las líneas propias (ya aplicadas en memoria) */
+  private writerId = `${process.pid}-${Math.random().toString(36).slice(2, 8)}`;
+
+  constructor(private filePath: string, private version: string, private log: (message: string) => void = () => {}) {
+    this.filePath = path.resolve(filePath);
+    this.journalPath = `${this.filePath}.journal`;
+  }
+
+  /** Entradas actuales (en memoria) */
+  get entries(): SelectorCacheData {
+    return this.data;
+  }
+
+  /**
+   * Carga el snapshot y aplica el journal completo
+   */
+  load(): void {
+    this.data = {};
+    this.offset = 0;
+    this.journalIno = null;
+    this.snapshotIno = null;
+    this.partialLine = '';
+    this.journalOps = 0;
+
+    if (fs.existsSync(this.filePath)) {
+      this.snapshotIno = fs.statSync(this.filePath).ino;
+      const snapshot = JSON.parse(fs.readFileSync(this.filePath, 'utf-8')) as CacheFileData;
+      // Formato distinto: se descarta el snapshot (el journal filtra por formato en cada línea)
+      if (snapshot.version === this.version) {
+        this.data = snapshot.entries || {};
+      } else {
+        this.log(`🔄 Formato de caché distinto (${snapshot.version} → ${this.version}), limpiando caché`);
+      }
+    }
+
+    if (fs.existsSync(this.journalPath)) {
+      this.journalIno = fs.statSync(this.journalPath).ino;
+      this.offset = this.readJournal(this.journalPath, 0, true);
+    }
+  }
+
+  /**
+   * Aplica las operaciones que otros workers/procesos agregaron al journal
+   */
+  sync(): void {
+    const stat = fs.statSync(this.journalPath, { throwIfNoEntry: false });
+    const snapshotIno = fs.statSync(this.filePath, { throwIfNoEntry: false })?.ino ?? null;
+
+    // Otro proceso compactó: su snapshot ya incluye lo que faltaba leer del journal anterior
+    const journalReplaced = this.journalIno !== null && (!stat || stat.ino !== this.journalIno || stat.size < this.offset);
+    if (journalReplaced || snapshotIno !== this.snapshotIno) {
+      this.log('🔄 Caché compactado por otro proceso, recargando');
+      this.load();
+      return;
+    }
+    if (!stat || stat.size === this.offset) return;
+
+    this.journalIno = stat.ino;
+    this.offset += this.readJournal(this.journalPath, this.offset, false);
+  }
+
+  /**
+   * Aplica una operación en memoria y la agrega al journal
+   */
+  apply(operation: CacheOperation): void {
+    this.sync();
+    this.applyOperation(operation);
+
+    try {
+      const line = JSON.stringify({ ...operation, v: this.version, w: this.writerId }) + '\n';
+      // Una sola escritura en modo append: las líneas de varios procesos no se mezclan
+      fs.appendFileSync(this.journalPath, line, 'utf-8');
+      this.journalOps++;
+    } catch (error) {
+      this.log(`⚠️ Error guardando caché: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Vuelca el journal al snapshot si acumuló suficientes operaciones (o siempre con force)
+   * Si otro proceso está compactando, no hace nada: lo hará él o el próximo
+   */
+  compact(force: boolean = false): void {
+    if (!force && this.journalOps < COMPACT_THRESHOLD) return;
+
+    const release = tryAcquireProcessLock(`${this.filePath}.lock`);
+    if (!release) return;
+
+    try {
+      this.sync();
+      if (!fs.existsSync(this.journalPath)) {
+        this.writeSnapshot();
+        return;
+      }
+
+      // Los cambios de otros procesos desde ahora van a un journal nuevo
+      const compactingPath = `${this.journalPath}.${process.pid}.compacting`;
+      fs.renameSync(this.journalPath, compactingPath);
+      this.offset += this.readJournal(compactingPath, this.offset, false);
+      this.writeSnapshot();
+      // Una escritura que estaba en curso al renombrar termina en el archivo renombrado
+      if (this.readJournal(compactingPath, this.offset, false) > 0) {
+        this.writeSnapshot();
+      }
+      fs.rmSync(compactingPath, { force: true });
+
+      this.offset = 0;
+      this.journalIno = null;
+      this.partialLine = '';
+      this.journalOps = 0;
+      this.log(`🗜️ Caché compactado: ${Object.keys(this.data).length} entradas`);
+    } catch (error) {
+      this.log(`⚠️ Error compactando caché: ${(error as Error).message}`);
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Lee el journal desde un offset y aplica sus líneas completas
+   * @param includeOwn Aplicar también las líneas propias (al recargar desde cero)
+   * @returns Bytes leídos
+   */
+  private readJournal(journalPath: string, offset: number, includeOwn: boolean): number {
+    const fd = fs.openSync(journalPath, 'r');
+    try {
+      const size = fs.fstatSync(fd).size;
+      if (size <= offset) return 0;
+
+      const buffer = Buffer.alloc(size - offset);
+      fs.readSync(fd, buffer, 0, buffer.length, offset);
+
+      const text = this.partialLine + buffer.toString('utf-8');
+      const lines = text.split('\n');
+      this.partialLine = lines.pop() || '';
+
+      for (const line of lines) {
+        if (!line.trim()) continue;
+        this.journalOps++;
+        try {
+          const { v, w, ...operation } = JSON.parse(line) as CacheOperation & { v?: string; w?: string };
+          if (v !== this.version || (w === this.writerId && !includeOwn)) continue;
+          this.applyOperation(operation as CacheOperation);
+        } catch {
+          this.log(`⚠️ Línea inválida en el journal del caché, ignorada`);
+        }
+      }
+      return buffer.length;
+    } finally {
+      fs.closeSync(fd);
+    }
+  }
+
+  private applyOperation(operation: CacheOperation): void {
+    switch (operation.op) {
+      case 'set':
+        this.data[operation.key] = operation.entry;
+        break;
+      case 'success': {
+        const entry = this.data[operation.key];
+        if (entry) {
+          entry.successCount++;
+          entry.lastSuccess = Math.max(entry.lastSuccess, operation.at);
+          entry.failureCount = 0;
+        }
+        break;
+      }
+      case 'failure': {
+        const entry = this.data[operation.key];
+        if (entry) entry.failureCount++;
+        break;
+      }
+      case 'delete':
+        delete this.data[operation.key];
+        break;
+      case 'clear':
+        this.data = {};
+        break;
+    }
+  }
+
+  /**
+   * Escribe el snapshot de forma atómica (archivo temporal + rename)
+   */
+  private writeSnapshot(): void {
+    const snapshot: CacheFileData = {
+      version: this.version,
+      createdAt: Date.now(),
+      lastModified: Date.now(),
+      entries: this.data,
+    };
+    const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(snapshot, null, 2), 'utf-8');
+    fs.renameSync(tmpPath, this.filePath);
+    this.snapshotIno = fs.statSync(this.filePath).ino;
+  }
+}
@@ -1,8 +1,7 @@
-import * as fs from 'fs';
-import * as path from 'path';
-import { globalFileLock } from './utils/locks.js';
+import { SelectorCacheStore } from './selector-cache-store.js';
 
-import { VerifyItem } from './llm-providers.js';
+import { AIActionType, VerifyItem } from './llm-providers.js';
+import { TokenUsage } from './llm-usage.js';
 
 /**
  * Acción cacheada individual
@@ -10,20 +9,24 @@ import { VerifyItem } from './llm-providers.js';
 export interface CachedAction {
   /** El selector/locator que devolvió la IA */
   selector: string;
-  /** Tipo de acción: click, fill, etc */
-  actionType: string;
+  /** Tipo de acción: click, fill, select, check, etc */
+  actionType: AIActionType;
   /** Descripción de la acción */
   description: string;
-  /** Valor para acciones tipo fill (opcional) */
+  /** Valor para acciones tipo fill, select, check o upload (opcional, puede tener slots ${VAR}) */
   value?: string;
   /** Para verifyAll: lista de verificaciones a realizar */
   verifications?: VerifyItem[];
+  /** Para extract: regex que se queda con parte del texto */
+  pattern?: string;
 }
 
 /**
  * Entrada cacheada de una instrucción (puede tener múltiples acciones)
  */
 export interface CachedSelector {
+  /** Instrucción original (plantilla con ${VAR}, sin resolver) */
+  instruction?: string;
   /** Lista de acciones para esta instrucción */
   actions: CachedAction[];
   /** Razonamiento original de la IA */
@@ -36,23 +39,29 @@ export interface CachedSelector {
   successCount: number;
   /** Contador de fallos consecutivos */
   failureCount: number;
+  /** Tokens que costó la consulta original al LLM (para estimar el ahorro en cada hit) */
+  usage?: TokenUsage & { model: string };
+  /** Versión de la app cuando se aprendió */
+  appVersion?: string;
+  /** Huella estructural de la página cuando se aprendió (ver createDomFingerprint) */
+  fingerprint?: string[];
 }
 
 /**
- * Estructura del caché
+ * Estado actual de la página para validar una entrada del caché
  */
-export interface SelectorCacheData {
-  [cacheKey: string]: CachedSelector;
+export interface CacheLookupContext {
+  /** Versión de la app (config, APP_VERSION o meta tag) */
+  appVersion?: string;
+  /** Huella estructural de la página actual */
+  fingerprint?: string[];
 }
 
 /**
- * Metadata del archivo de caché
+ * Estructura del caché
  */
-interface CacheFileData {
-  version: string;
-  createdAt: number;
-  lastModified: number;
-  entries: SelectorCacheData;
+export interface SelectorCacheData {
+  [cacheKey: string]: CachedSelector;
 }
 
 /**
@@ -67,14 +76,28 @@ export interface SelectorCacheConfig {
   maxFailures: number;
   /** Intervalo de limpieza automática en ms (default: 1 hora) */
   cleanupInterval: number;
-  /** Ruta del archivo de caché (default: './selector-cache.json') */
+  /** Ruta del archivo de caché (default: './selector-cache.json'; los cambios van a '<ruta>.journal') */
   cacheFilePath: string;
-  /** Versión de la app (para invalidar caché en deploys) */
-  appVersion: string;
+  /** Versión de la app: las entradas aprendidas con otra versión se ignoran (default: APP_VERSION) */
+  appVersion?: string;
+  /** Meta tag con la versión de la app si no se configura appVersion (default: 'app-version') */
+  appVersionMeta: string;
+  /** Diferencia máxima (0-1) entre la huella del DOM guardada y la actual (default: 0.5, 1 = no comparar) */
+  maxFingerprintDrift: number;
   /** Umbral de similitud para fuzzy matching (0-1, default: 0.85) */
   similarityThreshold: number;
   /** Habilitar logs de debug */
   debug: boolean;
+  /** Patrones de ruta que comparten entradas (ej: '/operadores/:id/editar', '/reportes/*') */
+  routePatterns: string[];
+  /** Reemplazar segmentos numéricos, uuid y hashes de la URL por :id, :uuid, :hash */
+  normalizeDynamicSegments: boolean;
+  /** Query string en la clave: false = ignorarla, true = todos los parámetros, o lista de parámetros */
+  queryParams: boolean | string[];
+  /** Usar la ruta después de '#/' en SPAs con hash routing */
+  hashRoutes: boolean;
+  /** No limpiar al cargar ni compactar al cerrar: el mantenimiento lo hace quien usa el caché (ej: 'ai-test cache') */
+  manualMaintenance: boolean;
 }
 
 const DEFAULT_CONFIG: SelectorCacheConfig = {
@@ -83,11 +106,32 @@ const DEFAULT_CONFIG: SelectorCacheConfig = {
   maxFailures: 3,
   cleanupInterval: 60 * 60 * 1000,       // 1 hora
   cacheFilePath: './selector-cache.json',
-  appVersion: '1.0.0',
+  appVersionMeta: 'app-version',
+  maxFingerprintDrift: 0.5,
   similarityThreshold: 1.0, // 100% - solo coincidencias exactas
   debug: false,
+  routePatterns: [],
+  normalizeDynamicSegments: true,
+  queryParams: false,
+  hashRoutes: true,
+  manualMaintenance: false,
 };
 
+/** Formato de selector-cache.json y del journal */
+const CACHE_FORMAT_VERSION = '1.0.0';
+
+/** Máximo de elementos en la huella del DOM */
+const MAX_FINGERPRINT_SIZE = 300;
+
+/** Segmentos dinámicos de una URL y su reemplazo en la clave */
+const DYNAMIC_SEGMENTS: [RegExp, string][] = [
+  [/^\d+$/, ':id'],
+  [/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i, ':uuid'],
+  // Hashes hex (sha, ObjectId) y tokens largos alfanuméricos
+  [/^(?=.*\d)[0-9a-f]{12,}$/i, ':hash'],
+  [/^(?=.*\d)(?=.*[a-z])[a-z0-9_-]{20,}$/i, ':hash'],
+];
+
 /**
  * Estadísticas del caché
  */
@@ -102,30 +146,73 @@ export interface CacheStats {
   totalFailures: number;
 }
 
+/**
+ * Filtro de entradas (CLI `ai-test cache`)
+ */
+export interface CacheEntryFilter {
+  /** Clave exacta */
+  key?: string;
+  /** Ruta normalizada (contiene el texto) o URL completa (se normaliza y compara exacta) */
+  url?: string;
+  /** La instrucción contiene el texto (sin distinguir mayúsculas ni acentos) */
+  instruction?: string;
+  /** Fallos consecutivos mínimos */
+  minFailures?: number;
+  /** Creada hace más de estos ms */
+  olderThan?: number;
+  /** Sin usarse con éxito hace más de estos ms */
+  unusedFor?: number;
+}
+
+/**
+ * Entrada del caché con su clave desarmada
+ */
+export interface CacheEntryInfo {
+  key: string;
+  /** Ruta normalizada de la clave */
+  url: string;
+  /** Instrucción original (o la normalizada de la clave en entradas viejas) */
+  instruction: string;
+  entry: CachedSelector;
+}
+
 /**
  * Gestor de caché de selectores para ahorrar tokens de IA
  * 
  * Almacena selectores ya descubiertos para no volver a consultar al LLM
  * por acciones repetitivas o similares.
+ * Varios agentes (workers o procesos) comparten el mismo archivo sin pisarse (ver SelectorCacheStore).
  */
 export class SelectorCacheManager {
-  private cache: SelectorCacheData = {};
+  private store: SelectorCacheStore;
   private config: SelectorCacheConfig;
+  /** routePatterns compilados: [patrón, regex] */
+  private routeMatchers: [string, RegExp][];
   private cleanupTimer: ReturnType<typeof setInterval> | null = null;
   private stats = { hits: 0, misses: 0 };
 
   constructor(config: Partial<SelectorCacheConfig> = {}) {
     this.config = { ...DEFAULT_CONFIG, ...config };
+    this.routeMatchers = this.config.routePatterns.map(pattern => [pattern, this.compileRoutePattern(pattern)]);
+    this.config.appVersion = this.config.appVersion || process.env.APP_VERSION || undefined;
+    this.store = new SelectorCacheStore(this.config.cacheFilePath, CACHE_FORMAT_VERSION, message => this.log(message));
     this.loadFromDisk();
     this.startCleanupTimer();
   }
 
+  /** Entradas actuales (incluye las aprendidas por otros workers hasta el último sync) */
+  private get cache(): SelectorCacheData {
+    return this.store.entries;
+  }
+
   /**
    * Normaliza una instrucción para usarla como clave de caché
    * Elimina variaciones de escritura para matchear instrucciones similares
+   * Los placeholders ${NOMBRE} se conservan como 'var_nombre' (no se confunden con texto literal)
    */
   private normalizeInstruction(instruction: string): string {
     return instruction
+      .replace(/\$\{([^}]+)\}/g, (_, expression: string) => ` var_${expression.replace(/\W+/g, '_')} `)
       .toLowerCase()
       .normalize('NFD')
       .replace(/[\u0300-\u036f]/g, '')  // Quitar acentos
@@ -135,17 +222,80 @@ export class SelectorCacheManager {
   }
 
   /**
-   * Extrae el path de una URL para usarlo como parte de la clave
+   * Extrae la ruta de una URL para usarla como parte de la clave
+   * '/operadores/123/editar' y '/operadores/456/editar' → '/operadores/:id/editar'
    */
-  private extractUrlPattern(url: string): string {
+  extractUrlPattern(url: string): string {
+    let urlObj: URL;
     try {
-      const urlObj = new URL(url);
-      // Usar pathname, opcionalmente podrías incluir el host
-      return urlObj.pathname;
+      urlObj = new URL(url);
     } catch {
       // Si no es URL válida, usar como está
       return url;
     }
+    
+    let route = urlObj.pathname;
+    let params = urlObj.searchParams;
+    let prefix = '';
+    
+    // SPA con hash routing: https://app/#/operadores/12?tab=datos
+    if (this.config.hashRoutes && urlObj.hash.startsWith('#/')) {
+      const hashUrl = new URL(urlObj.hash.slice(1), urlObj.origin);
+      prefix = `${route === '/' ? '' : this.normalizeRoute(route)}#`;
+      route = hashUrl.pathname;
+      params = hashUrl.searchParams;
+    }
+    
+    const query = this.normalizeQuery(params);
+    return `${prefix}${this.normalizeRoute(route)}${query ? `?${query}` : ''}`;
+  }
+
+  /**
+   * Aplica el primer routePattern que coincida o, si no, reemplaza los segmentos dinámicos
+   */
+  private normalizeRoute(pathname: string): string {
+    const route = pathname.length > 1 ? pathname.replace(/\/+$/, '') : pathname;
+    
+    const match = this.routeMatchers.find(([, regex]) => regex.test(route));
+    if (match) return match[0];
+    
+    if (!this.config.normalizeDynamicSegments) return route;
+    return route.split('/').map(segment => this.normalizeSegment(segment)).join('/');
+  }
+
+  private normalizeSegment(segment: string): string {
+    const dynamic = DYNAMIC_SEGMENTS.find(([regex]) => regex.test(segment));
+    return dynamic ? dynamic[1] : segment;
+  }
+
+  /**
+   * Parámetros del query string que forman parte de la clave (ordenados, con valores normalizados)
+   */
+  private normalizeQuery(params: URLSearchParams): string {
+    const { queryParams } = this.config;
+    if (queryParams === false) return '';
+    
+    return [...params.entries()]
+      .filter(([name]) => queryParams === true || queryParams.includes(name))
+      .map(([name, value]) => `${name}=${this.config.normalizeDynamicSegments ? this.normalizeSegment(value) : value}`)
+      .sort()
+      .join('&');
+  }
+
+  /**
+   * Convierte '/operadores/:id/editar' o '/reportes/*' en una regex
+   */
+  private compileRoutePattern(pattern: string): RegExp {
+    const source = pattern
+      .replace(/\/+$/, '')
+      .split('/')
+      .map(segment => {
+        if (segment === '*') return '.*';
+        if (segment.startsWith(':')) return '[^/]+';
+        return segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      })
+      .join('/');
+    return new RegExp(`^${source || '/'}$`);
   }
 
   /**
@@ -180,11 +330,74 @@ export class SelectorCacheManager {
     return age > this.config.defaultTTL;
   }
 
+  /**
+   * Versión de la app configurada (appVersion o APP_VERSION)
+   */
+  getAppVersion(): string | undefined {
+    return this.config.appVersion;
+  }
+
+  /**
+   * Meta tag del que se lee la versión si no está configurada
+   */
+  getAppVersionMeta(): string {
+    return this.config.appVersionMeta;
+  }
+
+  /**
+   * Indica si se compara la huella del DOM (maxFingerprintDrift < 1)
+   */
+  checksFingerprint(): boolean {
+    return this.config.maxFingerprintDrift < 1;
+  }
+
+  /**
+   * Indica si hay entradas para la ruta (candidatas de find, exactas o fuzzy; sin validarlas ni contar hit/miss)
+   * Permite calcular la huella del DOM solo cuando hace falta
+   */
+  hasRouteEntries(url: string): boolean {
+    this.store.sync();
+    const prefix = `${this.extractUrlPattern(url)}::`;
+    return Object.keys(this.cache).some(key => key.startsWith(prefix));
+  }
+
+  /**
+   * Indica si la instrucción está aprendida en alguna ruta (vigente y sin superar maxFailures)
+   * Sirve para revisar pasos que no se llegaron a ejecutar, sin saber en qué URL estarían
+   */
+  isLearned(instruction: string): boolean {
+    this.store.sync();
+    const suffix = `::${this.normalizeInstruction(instruction)}`;
+    return Object.entries(this.cache).some(([key, entry]) =>
+      key.endsWith(suffix) && !this.isExpired(entry) && entry.failureCount < this.config.maxFailures
+    );
+  }
+
+  /**
+   * Indica por qué una entrada no sirve para la página actual (otra versión o DOM distinto)
+   * @returns El motivo, o null si la entrada es válida
+   */
+  private getStaleReason(entry: CachedSelector, context: CacheLookupContext): string | null {
+    if (entry.appVersion && context.appVersion && entry.appVersion !== context.appVersion) {
+      return `aprendida con la versión ${entry.appVersion} (actual: ${context.appVersion})`;
+    }
+    if (entry.fingerprint?.length && context.fingerprint && this.checksFingerprint()) {
+      const drift = fingerprintDrift(entry.fingerprint, context.fingerprint);
+      if (drift > this.config.maxFingerprintDrift) {
+        return `la página cambió un ${Math.round(drift * 100)}% (máximo ${Math.round(this.config.maxFingerprintDrift * 100)}%)`;
+      }
+    }
+    return null;
+  }
+
   /**
    * Busca en el caché (exacto o fuzzy)
+   * Ignora las entradas de otra versión de la app o cuya huella del DOM cambió demasiado
    * @returns La entrada cacheada o null si no existe
    */
-  find(url: string, instruction: string): CachedSelector | null {
+  find(url: string, instruction: string, context: CacheLookupContext = {}): CachedSelector | null {
+    // Incorporar lo que aprendieron otros workers/procesos
+    this.store.sync();
     const exactKey = this.generateCacheKey(url, instruction);
     
     // 1. Búsqueda exacta
@@ -194,16 +407,22 @@ export class SelectorCacheManager {
       // Verificar expiración
       if (this.isExpired(entry)) {
         this.log('⏰ Cache expirado, eliminando...');
-        delete this.cache[exactKey];
-        this.saveToDisk();
+        this.store.apply({ op: 'delete', key: exactKey });
         return null;
       }
       
       // Verificar si tiene demasiados fallos
       if (entry.failureCount >= this.config.maxFailures) {
         this.log('❌ Selector con muchos fallos, eliminando...');
-        delete this.cache[exactKey];
-        this.saveToDisk();
+        this.store.apply({ op: 'delete', key: exactKey });
+        return null;
+      }
+      
+      // Otra versión o DOM distinto: se ignora (la respuesta nueva del LLM la reemplaza)
+      const staleReason = this.getStaleReason(entry, context);
+      if (staleReason) {
+        this.stats.misses++;
+        this.log(`🔄 Entrada ignorada: ${staleReason}`);
         return null;
       }
       
@@ -220,8 +439,8 @@ export class SelectorCacheManager {
       // Solo buscar en el mismo path
       if (!key.startsWith(urlPattern + '::')) continue;
       
-      // Verificar expiración y fallos
-      if (this.isExpired(entry) || entry.failureCount >= this.config.maxFailures) {
+      // Verificar expiración, fallos, versión y huella
+      if (this.isExpired(entry) || entry.failureCount >= this.config.maxFailures || this.getStaleReason(entry, context)) {
         continue;
       }
       
@@ -243,23 +462,37 @@ export class SelectorCacheManager {
   /**
    * Guarda múltiples acciones en el caché para una instrucción
    */
-  set(url: string, instruction: string, actions: CachedAction[], reasoning: string): void {
+  set(
+    url: string,
+    instruction: string,
+    actions: CachedAction[],
+    reasoning: string,
+    usage?: TokenUsage & { model: string },
+    context: CacheLookupContext = {}
+  ): void {
     // Aplicar límite LRU si es necesario
     this.enforceMaxSize();
     
     const key = this.generateCacheKey(url, instruction);
     
-    this.cache[key] = {
-      actions,
-      reasoning,
-      timestamp: Date.now(),
-      lastSuccess: Date.now(),
-      successCount: 1,
-      failureCount: 0,
-    };
+    this.store.apply({
+      op: 'set',
+      key,
+      entry: {
+        instruction,
+        actions,
+        reasoning,
+        timestamp: Date.now(),
+        lastSuccess: Date.now(),
+        successCount: 1,
+        failureCount: 0,
+        usage,
+        appVersion: context.appVersion,
+        fingerprint: context.fingerprint,
+      }
+    });
     
     this.log(`💾 Guardado en caché: "${instruction.substring(0, 50)}..." (${actions.length} acciones)`);
-    this.saveToDisk();
   }
 
   /**
@@ -267,13 +500,10 @@ export class SelectorCacheManager {
    */
   markSuccess(url: string, instruction: string): void {
     const key = this.generateCacheKey(url, instruction);
-    const entry = this.cache[key];
     
-    if (entry) {
-      entry.successCount++;
-      entry.lastSuccess = Date.now();
-      entry.failureCount = 0; // Reset fallos en éxito
-      this.saveToDisk();
+    if (this.cache[key]) {
+      // Suma un éxito y resetea los fallos
+      this.store.apply({ op: 'success', key, at: Date.now() });
     }
   }
 
@@ -283,19 +513,15 @@ export class SelectorCacheManager {
    */
   markFailure(url: string, instruction: string): boolean {
     const key = this.generateCacheKey(url, instruction);
-    const entry = this.cache[key];
     
-    if (entry) {
-      entry.failureCount++;
+    if (this.cache[key]) {
+      this.store.apply({ op: 'failure', key });
       
-      if (entry.failureCount >= this.config.maxFailures) {
+      if (this.cache[key] && this.cache[key].failureCount >= this.config.maxFailures) {
         this.log(`⚠️ Selector invalidado después de ${this.config.maxFailures} fallos`);
-        delete this.cache[key];
-        this.saveToDisk();
+        this.store.apply({ op: 'delete', key });
         return true;
       }
-      
-      this.saveToDisk();
     }
     
     return false;
@@ -307,12 +533,69 @@ export class SelectorCacheManager {
   invalidate(url: string, instruction: string): void {
     const key = this.generateCacheKey(url, instruction);
     if (this.cache[key]) {
-      delete this.cache[key];
+      this.store.apply({ op: 'delete', key });
       this.log(`🗑️ Entrada eliminada del caché`);
-      this.saveToDisk();
     }
   }
 
+  /**
+   * Lista las entradas que cumplen un filtro (más recientes primero)
+   */
+  list(filter: CacheEntryFilter = {}): CacheEntryInfo[] {
+    this.store.sync();
+    const now = Date.now();
+    const urlFilter = filter.url && /^https?:\/\//.test(filter.url) ? this.extractUrlPattern(filter.url) : undefined;
+    const instructionFilter = filter.instruction && this.normalizeInstruction(filter.instruction);
+    
+    return Object.entries(this.cache)
+      .map(([key, entry]) => {
+        const separator = key.indexOf('::');
+        return { key, url: key.slice(0, separator), instruction: entry.instruction || key.slice(separator + 2), entry };
+      })
+      .filter(({ key, url, instruction, entry }) =>
+        (!filter.key || key === filter.key) &&
+        (!filter.url || (urlFilter ? url === urlFilter : url.includes(filter.url))) &&
+        (!instructionFilter || this.normalizeInstruction(instruction).includes(instructionFilter)) &&
+        (filter.minFailures === undefined || entry.failureCount >= filter.minFailures) &&
+        (filter.olderThan === undefined || now - entry.timestamp > filter.olderThan) &&
+        (filter.unusedFor === undefined || now - entry.lastSuccess > filter.unusedFor)
+      )
+      .sort((a, b) => b.entry.timestamp - a.entry.timestamp);
+  }
+
+  /**
+   * Elimina entradas por clave
+   * @returns Cantidad eliminada
+   */
+  remove(keys: string[]): number {
+    let removed = 0;
+    for (const key of keys) {
+      if (this.cache[key]) {
+        this.store.apply({ op: 'delete', key });
+        removed++;
+      }
+    }
+    if (removed > 0) this.log(`🗑️ ${removed} entradas eliminadas del caché`);
+    return removed;
+  }
+
+  /**
+   * Agrega entradas (ej: un caché exportado desde otra máquina)
+   * Una entrada existente solo se reemplaza si la importada es más nueva (o con overwrite)
+   * @returns Cantidad importada
+   */
+  importEntries(entries: SelectorCacheData, overwrite: boolean = false): number {
+    this.store.sync();
+    let imported = 0;
+    for (const [key, entry] of Object.entries(entries)) {
+      const current = this.cache[key];
+      if (current && !overwrite && current.timestamp >= entry.timestamp) continue;
+      this.store.apply({ op: 'set', key, entry });
+      imported++;
+    }
+    return imported;
+  }
+
   /**
    * Aplica el límite de tamaño LRU
    */
@@ -326,7 +609,7 @@ export class SelectorCacheManager {
       // Eliminar el 20% más antiguo
       const toRemove = Math.floor(this.config.maxSize * 0.2);
       for (let i = 0; i < toRemove; i++) {
-        delete this.cache[entries[i][0]];
+        this.store.apply({ op: 'delete', key: entries[i][0] });
       }
       
       this.log(`🧹 LRU: eliminadas ${toRemove} entradas antiguas`);
@@ -341,23 +624,15 @@ export class SelectorCacheManager {
     let removed = 0;
     
     for (const [key, entry] of Object.entries(this.cache)) {
-      // Eliminar expirados
-      if (now - entry.timestamp > this.config.defaultTTL) {
-        delete this.cache[key];
-        removed++;
-        continue;
-      }
-      
-      // Eliminar con muchos fallos
-      if (entry.failureCount >= this.config.maxFailures) {
-        delete this.cache[key];
+      // Eliminar expirados o con muchos fallos
+      if (now - entry.timestamp > this.config.defaultTTL || entry.failureCount >= this.config.maxFailures) {
+        this.store.apply({ op: 'delete', key });
         removed++;
       }
     }
     
     if (removed > 0) {
       this.log(`🧹 Limpieza: ${removed} entradas eliminadas`);
-      this.saveToDisk();
     }
     
     return removed;
@@ -378,9 +653,8 @@ export class SelectorCacheManager {
    * Limpia todo el caché
    */
   clear(): void {
-    this.cache = {};
+    this.store.apply({ op: 'clear' });
     this.stats = { hits: 0, misses: 0 };
-    this.saveToDisk();
     this.log('🗑️ Caché completamente limpiado');
   }
 
@@ -389,59 +663,29 @@ export class SelectorCacheManager {
    */
   private loadFromDisk(): void {
     try {
-      const filePath = path.resolve(this.config.cacheFilePath);
+      // Snapshot + journal (la versión se verifica en ambos: si cambió, se ignoran las entradas viejas)
+      this.store.load();
+      this.log(`📂 Caché cargado: ${Object.keys(this.cache).length} entradas`);
       
-      if (fs.existsSync(filePath)) {
-        const data = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as CacheFileData;
-        
-        // Verificar versión - si cambió, invalidar todo
-        if (data.version !== this.config.appVersion) {
-          this.log(`🔄 Nueva versión detectada (${data.version} → ${this.config.appVersion}), limpiando caché`);
-          this.cache = {};
-          return;
-        }
-        
-        this.cache = data.entries || {};
-        this.log(`📂 Caché cargado: ${Object.keys(this.cache).length} entradas`);
-        
-        // Limpiar entradas expiradas al cargar
-        this.cleanup();
-      }
+      // Limpiar entradas expiradas al cargar
+      if (!this.config.manualMaintenance) this.cleanup();
     } catch (error) {
       this.log(`⚠️ Error cargando caché: ${(error as Error).message}`);
-      this.cache = {};
     }
   }
 
   /**
-   * Guarda el caché a disco (thread-safe)
+   * Vuelca el journal al snapshot (ej: antes de copiar selector-cache.json a otra máquina)
    */
-  private saveToDisk(): void {
-    const filePath = path.resolve(this.config.cacheFilePath);
-    
-    // Usar lock para escritura thread-safe
-    globalFileLock.withLock(filePath, async () => {
-      try {
-        const data: CacheFileData = {
-          version: this.config.appVersion,
-          createdAt: Date.now(),
-          lastModified: Date.now(),
-          entries: this.cache,
-        };
-        
-        fs.writeFileSync(filePath, JSON.stringify(data, null, 2), 'utf-8');
-      } catch (error) {
-        this.log(`⚠️ Error guardando caché: ${(error as Error).message}`);
-      }
-    }).catch(err => {
-      this.log(`⚠️ Error en lock de caché: ${err.message}`);
-    });
+  compact(): void {
+    this.store.compact(true);
   }
 
   /**
    * Obtiene estadísticas del caché
    */
   getStats(): CacheStats {
+    this.store.sync();
     const entries = Object.values(this.cache);
     const timestamps = entries.map(e => e.timestamp);
     
@@ -483,7 +727,8 @@ export class SelectorCacheManager {
       clearInterval(this.cleanupTimer);
       this.cleanupTimer = null;
     }
-    this.saveToDisk();
+    // Los cambios ya están en el journal; volcarlo al snapshot si creció
+    if (!this.config.manualMaintenance) this.store.compact();
     this.log('👋 Caché guardado y timer detenido');
   }
 
@@ -506,6 +751,106 @@ export class SelectorCacheManager {
   }
 }
 
+/**
+ * Elemento del DOM que aporta a la huella (compatible con InteractiveElement)
+ */
+export interface FingerprintElement {
+  tag: string;
+  type?: string;
+  role?: string;
+  name?: string;
+  ariaLabel?: string;
+  placeholder?: string;
+}
+
+/**
+ * Huella estructural de una página: hashes cortos de sus elementos interactivos
+ * No incluye textos visibles, valores, ids ni labels (en páginas con datos se generan a partir de ellos)
+ */
+export function createDomFingerprint(elements: FingerprintElement[]): string[] {
+  const hashes = new Set(elements.map(element => hashString([
+    element.tag, element.type, element.role, element.name, element.ariaLabel, element.placeholder
+  ].map(part => part || '').join('|'))));
+  return [...hashes].sort().slice(0, MAX_FINGERPRINT_SIZE);
+}
+
+/**
+ * Diferencia entre dos huellas (0 = iguales, 1 = nada en común)
+ */
+export function fingerprintDrift(a: string[], b: string[]): number {
+  if (a.length === 0 && b.length === 0) return 0;
+  const setB = new Set(b);
+  const common = a.filter(hash => setB.has(hash)).length;
+  return 1 - common / (a.length + b.length - common);
+}
+
+/** FNV-1a de 32 bits en hex (suficiente para distinguir elementos de una página) */
+function hashString(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/** Largo mínimo de un valor para reemplazarlo por su slot dentro de un texto más largo */
+const MIN_SLOT_VALUE_LENGTH = 3;
+
+/**
+ * Reemplaza en las acciones los valores de las variables por sus slots (${VAR})
+ * Así la entrada sirve para cualquier valor: 'Juan' → '${NOMBRE}'
+ *
+ * @param values placeholder -> valor resuelto (ej: { '${NOMBRE}': 'Juan' })
+ */
+export function toValueSlots(actions: CachedAction[], values: Record<string, string>): CachedAction[] {
+  // Primero los valores más largos (evita reemplazar 'Juan' dentro de 'Juana')
+  const slots = Object.entries(values)
+    .filter(([, value]) => value.trim() !== '')
+    .sort((a, b) => b[1].length - a[1].length);
+  if (slots.length === 0) return actions;
+
+  const toSlots = (text: string | undefined): string | undefined => {
+    if (!text) return text;
+    const exact = slots.find(([, value]) => value === text);
+    if (exact) return exact[0];
+    return slots
+      .filter(([, value]) => value.length >= MIN_SLOT_VALUE_LENGTH)
+      .reduce((result, [placeholder, value]) => result.split(value).join(placeholder), text);
+  };
+
+  return actions.map(action => ({
+    ...action,
+    selector: toSlots(action.selector)!,
+    description: toSlots(action.description)!,
+    value: toSlots(action.value),
+    verifications: action.verifications?.map(item => ({
+      ...item,
+      target: toSlots(item.target)!,
+      options: item.options?.map(option => ({ ...option, text: toSlots(option.text)! }))
+    }))
+  }));
+}
+
+/**
+ * Completa los slots (${VAR}) de las acciones cacheadas con los valores actuales
+ */
+export function fillValueSlots(actions: CachedAction[], resolve: (text: string) => string): CachedAction[] {
+  const fill = (text: string | undefined): string | undefined => text && text.includes('${') ? resolve(text) : text;
+
+  return actions.map(action => ({
+    ...action,
+    selector: fill(action.selector)!,
+    description: fill(action.description)!,
+    value: fill(action.value),
+    verifications: action.verifications?.map(item => ({
+      ...item,
+      target: fill(item.target)!,
+      options: item.options?.map(option => ({ ...option, text: fill(option.text)! }))
+    }))
+  }));
+}
+
 // Singleton para uso global (opcional)
 let globalCacheInstance: SelectorCacheManager | null = null;
 
@@ -0,0 +1,84 @@
+/**
+ * Deadlines (timeout de flow y de paso) basados en AbortSignal
+ */
+
+export interface Deadline {
+  /** Se aborta al vencer el timeout o al abortarse la señal padre */
+  signal: AbortSignal;
+  /** Cancela el timer y deja de escuchar a la señal padre */
+  dispose(): void;
+}
+
+/**
+ * Crea un error de timeout (distinguible de los TimeoutError de Playwright)
+ */
+export function createTimeoutError(message: string): Error {
+  return Object.assign(new Error(message), { timedOut: true });
+}
+
+/**
+ * Indica si un error proviene de un deadline vencido
+ */
+export function isTimeoutError(error: unknown): boolean {
+  return (error as { timedOut?: boolean } | null)?.timedOut === true;
+}
+
+/**
+ * Crea un deadline que se aborta tras `timeoutMs` (sin límite si es 0/undefined)
+ * o cuando se aborta `parent` (ej: el paso hereda el timeout del flow)
+ */
+export function createDeadline(timeoutMs: number | undefined, message: string, parent?: AbortSignal): Deadline {
+  const controller = new AbortController();
+  const onParentAbort = () => controller.abort(parent!.reason);
+
+  if (parent?.aborted) {
+    controller.abort(parent.reason);
+  } else {
+    parent?.addEventListener('abort', onParentAbort, { once: true });
+  }
+
+  const timer = timeoutMs && timeoutMs > 0
+    ? setTimeout(() => controller.abort(createTimeoutError(message)), timeoutMs)
+    : undefined;
+
+  return {
+    signal: controller.signal,
+    dispose: () => {
+      clearTimeout(timer);
+      parent?.removeEventListener('abort', onParentAbort);
+    }
+  };
+}
+
+/**
+ * Espera una promesa, pero rechaza con el `reason` de la señal cuando ésta se aborta
+ * La promesa original no se cancela (su rechazo posterior se ignora); el trabajo de
+ * Playwright en curso termina al cerrar el navegador
+ *
+ * @param graceMs Tiempo extra tras el abort para que la promesa termine por sí sola
+ */
+export async function raceWithSignal<T>(promise: Promise<T>, signal?: AbortSignal, graceMs: number = 0): Promise<T> {
+  if (!signal) return promise;
+
+  promise.catch(() => {});
+
+  let onAbort: (() => void) | undefined;
+  let graceTimer: NodeJS.Timeout | undefined;
+  const aborted = new Promise<never>((_, reject) => {
+    onAbort = () => {
+      graceTimer = setTimeout(() => reject(signal.reason), graceMs);
+    };
+    if (signal.aborted) {
+      onAbort();
+    } else {
+      signal.addEventListener('abort', onAbort, { once: true });
+    }
+  });
+
+  try {
+    return await Promise.race([promise, aborted]);
+  } finally {
+    clearTimeout(graceTimer);
+    signal.removeEventListener('abort', onAbort!);
+  }
+}
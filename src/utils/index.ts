@@ -1,3 +1,4 @@
 export * from './parallel-pool.js';
 export * from './logger.js';
 export * from './locks.js';
+export * from './deadline.js';
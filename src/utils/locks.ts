@@ -1,3 +1,5 @@
+import * as fs from 'fs';
+
 /**
  * Mutex simple para operaciones de archivo thread-safe
  */
@@ -38,6 +40,77 @@ export class FileLock {
 // Instancia global del lock
 export const globalFileLock = new FileLock();
 
+/**
+ * Lock entre procesos basado en un archivo creado en modo exclusivo ('wx')
+ * Un lock más viejo que `staleMs` se considera abandonado (proceso que murió) y se reemplaza
+ *
+ * El lock abandonado se renombra a un nombre único antes de crear el nuevo: si dos procesos
+ * lo ven vencido a la vez, solo uno logra renombrarlo. El archivo guarda el dueño (pid + token),
+ * y al liberar solo se elimina si sigue siendo nuestro.
+ *
+ * @returns Función para liberar el lock, o null si otro proceso lo tiene
+ */
+export function tryAcquireProcessLock(lockPath: string, staleMs: number = 30000): (() => void) | null {
+  const owner = `${process.pid}-${Math.random().toString(36).slice(2, 10)}`;
+  
+  for (let attempt = 0; attempt < 2; attempt++) {
+    try {
+      const fd = fs.openSync(lockPath, 'wx');
+      fs.writeSync(fd, owner);
+      fs.closeSync(fd);
+      return () => releaseProcessLock(lockPath, owner);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+      const stat = fs.statSync(lockPath, { throwIfNoEntry: false });
+      if (stat && Date.now() - stat.mtimeMs < staleMs) return null;
+      if (stat && !takeOverStaleLock(lockPath, owner, staleMs)) return null;
+    }
+  }
+  return null;
+}
+
+/**
+ * Aparta un lock vencido renombrándolo (atómico: solo un proceso lo logra)
+ * @returns false si otro proceso lo apartó antes o el lock apartado resultó estar vigente
+ */
+function takeOverStaleLock(lockPath: string, owner: string, staleMs: number): boolean {
+  const stalePath = `${lockPath}.${owner}.stale`;
+  try {
+    fs.renameSync(lockPath, stalePath);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return false;
+    throw error;
+  }
+  
+  // Entre el stat y el rename otro proceso pudo reemplazarlo por uno nuevo: devolverlo
+  const stat = fs.statSync(stalePath, { throwIfNoEntry: false });
+  if (stat && Date.now() - stat.mtimeMs < staleMs) {
+    try {
+      fs.linkSync(stalePath, lockPath);
+    } catch {
+      // Otro proceso ya creó un lock nuevo: queda ese
+    }
+    fs.rmSync(stalePath, { force: true });
+    return false;
+  }
+  
+  fs.rmSync(stalePath, { force: true });
+  return true;
+}
+
+/**
+ * Elimina el lock solo si sigue siendo nuestro (otro proceso pudo reemplazarlo por vencido)
+ */
+function releaseProcessLock(lockPath: string, owner: string): void {
+  try {
+    if (fs.readFileSync(lockPath, 'utf-8') === owner) {
+      fs.rmSync(lockPath, { force: true });
+    }
+  } catch {
+    // Ya no existe
+  }
+}
+
 /**
  * Semáforo para limitar concurrencia de llamadas a API
  */
@@ -2,9 +2,13 @@
  * Pool de ejecución paralela con límite de concurrencia
  */
 
+import { raceWithSignal } from './deadline.js';
+
 export interface PoolOptions {
   maxWorkers: number;
   onProgress?: (completed: number, total: number, result: any) => void;
+  /** Si devuelve true, los workers dejan de tomar tareas nuevas (las pendientes no se ejecutan) */
+  shouldStop?: () => boolean;
 }
 
 export interface PoolTask<T> {
@@ -27,7 +31,7 @@ export async function runInPool<T>(
   tasks: PoolTask<T>[],
   options: PoolOptions
 ): Promise<PoolResult<T>[]> {
-  const { maxWorkers, onProgress } = options;
+  const { maxWorkers, onProgress, shouldStop } = options;
   const results: PoolResult<T>[] = [];
   let completed = 0;
   let currentIndex = 0;
@@ -53,7 +57,7 @@ export async function runInPool<T>(
   };
   
   const runNext = async (): Promise<void> => {
-    while (currentIndex < tasks.length) {
+    while (currentIndex < tasks.length && !shouldStop?.()) {
       const taskIndex = currentIndex++;
       const task = tasks[taskIndex];
       
@@ -91,13 +95,19 @@ export async function withRetry<T>(
     initialDelayMs?: number;
     maxDelayMs?: number;
     retryOn?: (error: Error) => boolean;
+    /** Espera indicada por el servidor (ej: Retry-After); tiene prioridad sobre el backoff */
+    getDelayMs?: (error: Error) => number | undefined;
+    /** Corta la espera entre reintentos (timeout del paso o del flow) */
+    signal?: AbortSignal;
   } = {}
 ): Promise<T> {
   const {
     maxRetries = 3,
     initialDelayMs = 1000,
     maxDelayMs = 30000,
-    retryOn = (e) => e.message.includes('rate') || e.message.includes('429') || e.message.includes('quota')
+    retryOn = (e) => e.message.includes('rate') || e.message.includes('429') || e.message.includes('quota'),
+    getDelayMs,
+    signal
   } = options;
   
   let lastError: Error;
@@ -112,9 +122,12 @@ export async function withRetry<T>(
         throw lastError;
       }
       
-      const delay = Math.min(initialDelayMs * Math.pow(2, attempt), maxDelayMs);
-      console.log(`⏳ Rate limit detectado. Reintentando en ${delay}ms... (intento ${attempt + 1}/${maxRetries})`);
-      await new Promise(resolve => setTimeout(resolve, delay));
+      const delay = Math.min(getDelayMs?.(lastError) ?? initialDelayMs * Math.pow(2, attempt), maxDelayMs);
+      console.log(`⏳ Error reintentable (${lastError.message.substring(0, 80)}). Reintentando en ${delay}ms... (intento ${attempt + 1}/${maxRetries})`);
+      // Si vence el deadline durante la espera, se rechaza con su motivo sin esperar el resto
+      let timer: NodeJS.Timeout | undefined;
+      await raceWithSignal(new Promise<void>(resolve => { timer = setTimeout(resolve, delay); }), signal)
+        .finally(() => clearTimeout(timer));
     }
   }
   
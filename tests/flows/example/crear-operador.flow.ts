@@ -9,18 +9,14 @@ import { defineFlow } from '../../../src/runner/index.js';
  * - regression: test de regresión
  */
 export default defineFlow({
-  name: 'Crear nuevo operador',
+  // Un flow por operador del dataset (filtrar uno con --name "Jonas")
+  name: 'Crear operador ${OPERADOR_NOMBRE} ${OPERADOR_APELLIDO}',
   tags: ['operadores', 'crud', 'regression'],
   
   url: '${TEST_URL}',
   
-  // Variables específicas de este test
-  variables: {
-    OPERADOR_NOMBRE: 'Jonas Alde',
-    OPERADOR_APELLIDO: 'Ticona Mamani',
-    OPERADOR_FECHA: '01/01/2008',
-    OPERADOR_LICENCIA: '33333211112'
-  },
+  // Cada fila define OPERADOR_NOMBRE, OPERADOR_APELLIDO, OPERADOR_FECHA y OPERADOR_LICENCIA
+  dataset: './tests/flows/example/data/operadores.csv',
   
   // Más tiempo entre pasos para formularios
   delayBetweenSteps: 4000,
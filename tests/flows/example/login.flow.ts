@@ -7,10 +7,14 @@ import { defineFlow } from '../../../src/runner/index.js';
  * - smoke: test básico que debe pasar siempre
  * - login: relacionado con autenticación
  * - critical: funcionalidad crítica
+ * 
+ * También es el flow de setup de la sesión 'admin': los flows con auth: 'admin'
+ * arrancan ya logueados
  */
 export default defineFlow({
   name: 'Login al sistema',
   tags: ['smoke', 'login', 'critical'],
+  setup: 'admin',
   
   // URL viene de la variable de entorno
   url: '${TEST_URL}',
@@ -13,10 +13,10 @@ export default defineFlow({
   
   url: '${TEST_URL}',
   
+  // Arranca con la sesión guardada por el flow de setup 'admin' (login.flow.ts)
+  auth: 'admin',
+  
   steps: [
-    // Login primero
-    'Ingresar email ${TEST_EMAIL} y contraseña ${TEST_PASSWORD}, click en Ingresar',
-    
     // Navegar
     'Hacer click en la opción Mi flota',
     'Hacer click en Operadores',
@@ -1,4 +1,5 @@
-import { defineFlows } from '../../../src/runner/index.js';
+import { defineFlows, use } from '../../../src/runner/index.js';
+import { login } from '../shared/login.steps.js';
 
 /**
  * Múltiples tests de verificación en un solo archivo
@@ -10,7 +11,7 @@ export default defineFlows([
     tags: ['smoke', 'dashboard'],
     url: '${TEST_URL}',
     steps: [
-      'Login con ${TEST_EMAIL} y ${TEST_PASSWORD}',
+      use(login),
       'Verificar que existe el título "Informe operativo"',
       'Verificar que aparece el menú lateral'
     ]
@@ -21,7 +22,7 @@ export default defineFlows([
     tags: ['smoke', 'menu'],
     url: '${TEST_URL}',
     steps: [
-      'Login con ${TEST_EMAIL} y ${TEST_PASSWORD}',
+      use(login),
       'Hacer click en Mi flota',
       'Verificar que aparecen las opciones: Operadores, Vehículos, Rutas'
     ]
@@ -32,7 +33,7 @@ export default defineFlows([
     tags: ['smoke', 'auth', 'logout'],
     url: '${TEST_URL}',
     steps: [
-      'Login con ${TEST_EMAIL} y ${TEST_PASSWORD}',
+      use(login),
       'Hacer click en el menú de usuario o perfil',
       'Hacer click en Cerrar sesión',
       'Verificar que aparece la página de login'
@@ -1,4 +1,5 @@
-import { defineFlow } from '../../src/runner/index.js';
+import { defineFlow, use } from '../../src/runner/index.js';
+import { login } from './shared/login.steps.js';
 
 export default defineFlow({
   name: 'Verificar sidebar',
@@ -11,7 +12,7 @@ export default defineFlow({
   delayBetweenSteps: 4000,
   
   steps: [
-  'Llenar campo email con ${TEST_EMAIL}, campo contraseña con ${TEST_PASSWORD}, y hacer click en botón Ingresar',
+  use(login),
    `Verificar pantalla Informe operativo:
    - sidebar "Estadísticas":
      - submenú: "Informe operativo"
@@ -1,4 +1,5 @@
-import { defineFlow } from '../../src/runner/index.js';
+import { defineFlow, use } from '../../src/runner/index.js';
+import { login } from './shared/login.steps.js';
 
 export default defineFlow({
   name: 'Flujo Pil',
@@ -14,7 +15,7 @@ export default defineFlow({
   delayBetweenSteps: 4000,
   
   steps: [
-    'Llenar campo email con ${TEST_EMAIL}, campo contraseña con ${TEST_PASSWORD}, y hacer click en botón Ingresar',
+    use(login),
     'Click en menú "Mi flota", luego en "Libreria"',
   ]
 });
\ No newline at end of file
@@ -1,4 +1,5 @@
-import { defineFlow } from '../../src/runner/index.js';
+import { defineFlow, use } from '../../src/runner/index.js';
+import { login } from './shared/login.steps.js';
 
 export default defineFlow({
   name: 'Flujo piloto',
@@ -18,7 +19,7 @@ export default defineFlow({
   delayBetweenSteps: 4000,
   
   steps: [
-  'Llenar campo email con ${TEST_EMAIL}, campo contraseña con ${TEST_PASSWORD}, y hacer click en botón Ingresar',
+  use(login),
   'Hacer click en el elemento de menú que tenga el texto exacto "Mi flota" y después en el submenú con texto exacto "Operadores"',
   'Click en botón "Crear nuevo"',
   `Completar formulario de operador:
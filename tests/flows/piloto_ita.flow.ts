@@ -1,4 +1,5 @@
-import { defineFlow } from '../../src/runner/index.js';
+import { defineFlow, use } from '../../src/runner/index.js';
+import { login } from './shared/login.steps.js';
 
 export default defineFlow({
   name: 'Flujo piloto Itacamba',
@@ -12,8 +13,8 @@ export default defineFlow({
     SERVICIO: 'Venta',
     RUTA: 'Bolivia',
     DESPACHO:'Sin T/D',
-    FECHA_CARGA:'10/02/2026',
-    FECHA_DESCARGA:'12/02/2026',
+    FECHA_CARGA:'${$today+1d:DD/MM/YYYY}',
+    FECHA_DESCARGA:'${$today+3d:DD/MM/YYYY}',
     NRO_TRANSPORTE:'123333',
     NRO_PEDIDO:'4444441',
     TIPO_CAMION:'Tolva',
@@ -31,9 +32,11 @@ export default defineFlow({
   delayBetweenSteps: 4000,
   
   steps: [
-  'Llenar campo email con ${TEST_EMAIL_ITA}, campo contraseña con ${TEST_PASSWORD_ITA}, y hacer click en botón Ingresar',
+  use(login, { EMAIL: '${TEST_EMAIL_ITA}', PASSWORD: '${TEST_PASSWORD_ITA}' }),
   'Hacer click en el elemento de menú que tenga el texto exacto "Gestión" y después en el submenú con texto exacto "Operaciones"',
   'Click en botón "Crear nueva"',
+  // Los pasos siguientes pueden usar ${OP_ID} (ej: 'Buscar la operación ${OP_ID}')
+  'Guardar el número de operación generado como OP_ID',
   `Completar formulario de step Operación:
    - Dropdown "Tipo de servicio": seleccionar \${SERVICIO}
    - Dropdown "Tipo de despacho": seleccionar \${DESPACHO}
@@ -0,0 +1,14 @@
+import { defineSteps } from '../../../src/runner/index.js';
+
+/**
+ * Login reutilizable entre flows
+ * 
+ * - use(login): usa TEST_EMAIL / TEST_PASSWORD
+ * - use(login, { EMAIL: '${TEST_EMAIL_ITA}', PASSWORD: '${TEST_PASSWORD_ITA}' }): otras credenciales
+ */
+export const login = defineSteps('Login', [
+  'Llenar campo email con ${EMAIL}, campo contraseña con ${PASSWORD}, y hacer click en botón Ingresar'
+], {
+  EMAIL: '${TEST_EMAIL}',
+  PASSWORD: '${TEST_PASSWORD}'
+});
@@ -1,10 +1,75 @@
 /**
  * Script simple para ejecutar tests con configuración
  */
+import * as http from 'http';
+import { AddressInfo } from 'net';
 import { FlowRunner } from '../src/runner/index.js';
 import { loadConfig } from '../src/config/index.js';
+import { SlackNotifier, TeamsNotifier, WebhookNotifier, Notifier } from '../src/notifications/index.js';
+import { TestRunResult } from '../src/runner/types.js';
+
+/**
+ * Verifica que los notifiers entreguen el mensaje (contra un servidor HTTP local, sin red)
+ * Uso: node dist/tests/run.js --check-notifications
+ */
+async function checkNotifications(): Promise<boolean> {
+  const received: { url: string; body: any }[] = [];
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => body += chunk);
+    req.on('end', () => {
+      received.push({ url: req.url || '', body: JSON.parse(body || '{}') });
+      // /error simula un webhook caído
+      res.writeHead(req.url === '/error' ? 500 : 200).end('ok');
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  const result: TestRunResult = {
+    totalFlows: 2, passed: 1, failed: 1, timedOut: 0, flaky: 0, skipped: 0, duration: 4200,
+    flows: [
+      { name: 'Login', tags: [], success: true, totalSteps: 3, completedSteps: 3, duration: 1500, steps: [] },
+      { name: 'Crear operación', tags: [], success: false, totalSteps: 5, completedSteps: 2, duration: 2700, steps: [], error: 'No se encontró el botón' }
+    ]
+  };
+  const notification = { result, projectName: 'Smoke', reportLink: 'https://ci.example.com/report' };
+
+  const checks: { name: string; notifier: Notifier; path: string; valid: (body: any) => boolean }[] = [
+    { name: 'Slack', notifier: new SlackNotifier(`${baseUrl}/slack`, 'always'), path: '/slack',
+      valid: body => JSON.stringify(body).includes('Crear operación') && Array.isArray(body.attachments) },
+    { name: 'Teams', notifier: new TeamsNotifier(`${baseUrl}/teams`, 'always'), path: '/teams',
+      valid: body => JSON.stringify(body).includes('Crear operación') },
+    { name: 'Webhook', notifier: new WebhookNotifier(`${baseUrl}/webhook`, 'always', { 'X-Token': 'abc' }), path: '/webhook',
+      valid: body => body.event === 'run.finished' && body.status === 'failed' }
+  ];
+
+  let ok = true;
+  try {
+    for (const check of checks) {
+      await check.notifier.send(notification);
+      const request = received.find(r => r.url === check.path);
+      const passed = !!request && check.valid(request.body);
+      console.log(`${passed ? '✅' : '❌'} ${check.name}: ${passed ? 'entregado' : 'no llegó o el cuerpo es inválido'}`);
+      ok = ok && passed;
+    }
+
+    // Un webhook que responde con error debe hacer fallar el envío
+    const failed = await new SlackNotifier(`${baseUrl}/error`, 'always').send(notification).then(() => false, () => true);
+    console.log(`${failed ? '✅' : '❌'} Error HTTP: ${failed ? 'reportado' : 'ignorado'}`);
+    ok = ok && failed;
+  } finally {
+    server.close();
+  }
+  return ok;
+}
 
 async function main() {
+  // Solo verificar notificaciones (no necesita navegador ni API keys)
+  if (process.argv.includes('--check-notifications')) {
+    process.exit(await checkNotifications() ? 0 : 1);
+  }
+  
   // Cargar configuración desde ai-test.config.ts
   const config = await loadConfig();
   
@@ -26,6 +91,10 @@ async function main() {
     } else if (args[i] === '--name' && args[i + 1]) {
       nameFilter = args[i + 1];
       i++;
+    } else if (args[i] === '--cache-only') {
+      config.ai.mode = 'strict';
+    } else if (args[i] === '--learn') {
+      config.ai.mode = 'learn';
     }
   }
   
@@ -48,7 +117,7 @@ async function main() {
   
   const result = await runner.run();
   
-  process.exit(result.failed > 0 ? 1 : 0);
+  process.exit(result.failed > 0 || result.timedOut > 0 ? 1 : 0);
 }
 
 main().catch(console.error);